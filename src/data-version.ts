@@ -5,4 +5,17 @@ export interface DataVersion {
   databaseVersion?: string;
   dateOfCreation: string;
   lang: string;
+  // The base URL the data was downloaded from, followed by an identifier for
+  // the file naming scheme (as a URL fragment) if it is not the default one.
+  //
+  // This is only set when the data comes from somewhere other than the default
+  // location (which also means it is absent for data downloaded before we
+  // started recording it).
+  source?: string;
+  // The number of records that have been skipped since the last full update
+  // because they were not recognized (see InvalidRecordPolicy).
+  //
+  // This is only set when some records have been skipped, in which case the
+  // data is incomplete.
+  quarantined?: number;
 }
@@ -1,4 +1,4 @@
-import { JpdictDatabase } from './database';
+import { JpdictDatabase, JpdictDatabaseOptions } from './database';
 import { isKanji } from './japanese';
 import { toWordRecord, WordRecord } from './records';
 import { JpdictStore } from './store';
@@ -6,8 +6,8 @@ import { getTokens } from './tokenizer';
 import { WordEntryLine, WordSense } from './words';
 
 export class JpdictFullTextDatabase extends JpdictDatabase {
-  constructor({ verbose = false }: { verbose?: boolean } = {}) {
-    super({ verbose });
+  constructor(options: JpdictDatabaseOptions = {}) {
+    super(options);
     this.store = new JpdictFullTextStore();
   }
 }
@@ -4,7 +4,9 @@ import fetchMock from 'fetch-mock';
 import sinon from 'sinon';
 
 import { DownloadError, DownloadErrorCode } from './download';
-import { DataSeriesState, JpdictDatabase } from './database';
+import { ChangeTopic, DataSeriesState, JpdictDatabase } from './database';
+import { holdUpdateLock, openUpdateChannel } from './update-coordination';
+import { MigratingUpdateState, PausedUpdateState } from './update-state';
 import { stripFields } from './utils';
 
 mocha.setup('bdd');
@@ -40,6 +42,8 @@ const VERSION_INFO = {
 
 describe('database', function () {
   let db: JpdictDatabase;
+  // Instances replaced by tests that simulate re-opening the database
+  let previousDbs: Array<JpdictDatabase> = [];
 
   // We seem to be timing out on Chrome recently
   this.timeout(15000);
@@ -54,6 +58,10 @@ describe('database', function () {
     if (db) {
       await db.destroy();
     }
+    for (const previousDb of previousDbs) {
+      await previousDb.destroy();
+    }
+    previousDbs = [];
   });
 
   it('should initially be initializing', async () => {
@@ -129,6 +137,177 @@ describe('database', function () {
     );
   });
 
+  it('should only use a cached version file when requested', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_INFO);
+    fetchMock.mock(
+      'end:kanji-rc-en-4.0.0.ljson',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":0}
+`
+    );
+    fetchMock.mock(
+      'end:radicals-rc-en-4.0.0.ljson',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":0}
+`
+    );
+
+    await db.update({ series: 'kanji', lang: 'en' });
+    assert.strictEqual(
+      fetchMock.calls('end:jpdict-rc-en-version.json').length,
+      1
+    );
+
+    // An explicit update should always check for a new version...
+    await db.update({ series: 'kanji', lang: 'en' });
+    assert.strictEqual(
+      fetchMock.calls('end:jpdict-rc-en-version.json').length,
+      2
+    );
+
+    // ... including when updating several series at once...
+    await db.updateAll({ series: ['kanji'], lang: 'en' });
+    assert.strictEqual(
+      fetchMock.calls('end:jpdict-rc-en-version.json').length,
+      3
+    );
+
+    // ... unless the caller says a cached version file will do.
+    await db.updateAll({ series: ['kanji'], lang: 'en', forceFetch: false });
+    assert.strictEqual(
+      fetchMock.calls('end:jpdict-rc-en-version.json').length,
+      3
+    );
+  });
+
+  it('should update several series in one go', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_INFO);
+    fetchMock.mock(
+      'end:kanji-rc-en-4.0.0.ljson',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":0}
+`
+    );
+    fetchMock.mock(
+      'end:radicals-rc-en-4.0.0.ljson',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":0}
+`
+    );
+    fetchMock.mock('end:names-rc-en-3.0.0.ljson', 404);
+
+    const progress: Array<number> = [];
+    const results = await db.updateAll({
+      series: ['names', 'kanji'],
+      onProgress: (p) => progress.push(p),
+    });
+
+    // The results should be in the order requested
+    assert.deepEqual(
+      results.map(({ series }) => series),
+      ['names', 'kanji']
+    );
+    assert.deepEqual(results[1], {
+      series: 'kanji',
+      version: { ...VERSION_INFO.kanji['4'], lang: 'en' },
+    });
+    assert.isNull(results[0].version);
+    assert.instanceOf(results[0].error, DownloadError);
+
+    // But the smaller series should be updated first
+    const urls = fetchMock.calls().map(([url]) => url);
+    assert.isBelow(
+      urls.findIndex((url) => url.endsWith('kanji-rc-en-4.0.0.ljson')),
+      urls.findIndex((url) => url.endsWith('names-rc-en-3.0.0.ljson'))
+    );
+
+    assert.deepEqual(
+      progress,
+      [...progress].sort((a, b) => a - b)
+    );
+    assert.strictEqual(progress[progress.length - 1], 1);
+  });
+
+  it('should not update large series in parallel beyond the memory budget', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_INFO);
+    fetchMock.mock('end:names-rc-en-3.0.0.ljson', 404);
+    fetchMock.mock('end:words-rc-en-2.0.0.ljson', 404);
+
+    const inProgress: Set<string> = new Set();
+    let maxInProgress = 0;
+    db.addChangeListener(() => {
+      for (const series of ['words', 'names'] as const) {
+        if (db[series].updateState.state !== 'idle') {
+          inProgress.add(series);
+        } else {
+          inProgress.delete(series);
+        }
+      }
+      maxInProgress = Math.max(maxInProgress, inProgress.size);
+    });
+
+    await db.updateAll({ series: ['words', 'names'], concurrency: 2 });
+
+    assert.strictEqual(maxInProgress, 1);
+
+    // Unless we have the memory to spare
+    maxInProgress = 0;
+    await db.updateAll({
+      series: ['words', 'names'],
+      concurrency: 2,
+      memoryBudget: 1024 * 1024 * 1024,
+    });
+
+    assert.strictEqual(maxInProgress, 2);
+  });
+
+  it('should report the total progress across patches', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', {
+      names: {
+        '3': {
+          ...VERSION_INFO.names['3'],
+          patch: 1,
+          sizes: { '0': 300, '1': 100 },
+        },
+      },
+    });
+    fetchMock.mock(
+      'end:names-rc-en-3.0.0.ljson',
+      `{"type":"header","version":{"major":3,"minor":0,"patch":0,"dateOfCreation":"2020-08-22"},"records":0}
+`
+    );
+    fetchMock.mock(
+      'end:names-rc-en-3.0.1.ljson',
+      `{"type":"header","version":{"major":3,"minor":0,"patch":1,"dateOfCreation":"2020-08-23"},"records":0}
+`
+    );
+
+    const totalProgress: Array<number> = [];
+    db.addChangeListener(() => {
+      const { updateState } = db.names;
+      if (updateState.state === 'checking' && updateState.files) {
+        assert.deepEqual(updateState.files, [
+          { major: 3, minor: 0, patch: 0, size: 300 },
+          { major: 3, minor: 0, patch: 1, size: 100 },
+        ]);
+      }
+      if (
+        (updateState.state === 'downloading' ||
+          updateState.state === 'updatingdb') &&
+        typeof updateState.totalProgress === 'number'
+      ) {
+        totalProgress.push(updateState.totalProgress);
+      }
+    });
+
+    await db.update({ series: 'names', lang: 'en' });
+
+    // The first file should account for 75% of the progress since it makes
+    // up 75% of the bytes to download.
+    assert.strictEqual(totalProgress[0], 0);
+    assert.include(totalProgress, 0.75);
+    assert.strictEqual(totalProgress[totalProgress.length - 1], 1);
+    for (let i = 1; i < totalProgress.length; i++) {
+      assert.isAtLeast(totalProgress[i], totalProgress[i - 1]);
+    }
+  });
+
   it('should ignore redundant calls to update', async () => {
     fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_INFO);
     fetchMock.mock(
@@ -187,6 +366,208 @@ describe('database', function () {
     assert.equal(db.kanji.version!.lang, 'fr');
   });
 
+  describe('languages', () => {
+    const mockKanjiFiles = (lang: string) => {
+      fetchMock.mock(`end:jpdict-rc-${lang}-version.json`, VERSION_INFO);
+      fetchMock.mock(
+        `end:kanji-rc-${lang}-4.0.0.ljson`,
+        `{"type":"header","version":{"major":4,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":1}
+{"c":"㐂","r":{},"m":["${lang}"],"rad":{"x":1},"refs":{},"misc":{"sc":6}}
+`
+      );
+      fetchMock.mock(
+        `end:radicals-rc-${lang}-4.0.0.ljson`,
+        `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":0}
+`
+      );
+    };
+
+    beforeEach(() => {
+      mockKanjiFiles('en');
+      mockKanjiFiles('fr');
+      mockKanjiFiles('de');
+    });
+
+    const getMeanings = async () =>
+      (await db.store._getKanji([13314])).map(({ m }) => m[0]);
+
+    it('should keep the data for the previous language', async () => {
+      await db.update({ series: 'kanji', lang: 'en' });
+      await db.update({ series: 'kanji', lang: 'fr' });
+
+      assert.equal(db.kanji.version!.lang, 'fr');
+      assert.deepEqual(await getMeanings(), ['fr']);
+
+      await db.update({ series: 'kanji', lang: 'en' });
+
+      assert.equal(db.kanji.state, DataSeriesState.Ok);
+      assert.equal(db.kanji.version!.lang, 'en');
+      assert.equal(db.radicals.version!.lang, 'en');
+      assert.deepEqual(await getMeanings(), ['en']);
+      assert.equal(
+        fetchMock.calls('end:kanji-rc-en-4.0.0.ljson').length,
+        1,
+        'Should not download the data again'
+      );
+    });
+
+    it('should drop the least recently used language', async () => {
+      await db.update({ series: 'kanji', lang: 'en' });
+      await db.update({ series: 'kanji', lang: 'fr' });
+      await db.update({ series: 'kanji', lang: 'de' });
+
+      // We only keep two languages by default so the English data should
+      // have been dropped.
+      await db.update({ series: 'kanji', lang: 'fr' });
+      await db.update({ series: 'kanji', lang: 'en' });
+
+      assert.deepEqual(await getMeanings(), ['en']);
+      assert.equal(fetchMock.calls('end:kanji-rc-en-4.0.0.ljson').length, 2);
+      assert.equal(fetchMock.calls('end:kanji-rc-fr-4.0.0.ljson').length, 1);
+    });
+
+    it('should drop the previous language when only one language is kept', async () => {
+      await db.destroy();
+      db = new JpdictDatabase({ maxLanguages: 1 });
+
+      await db.update({ series: 'kanji', lang: 'en' });
+      await db.update({ series: 'kanji', lang: 'fr' });
+      await db.update({ series: 'kanji', lang: 'en' });
+
+      assert.deepEqual(await getMeanings(), ['en']);
+      assert.equal(fetchMock.calls('end:kanji-rc-en-4.0.0.ljson').length, 2);
+    });
+
+    it('should drop previous languages that exceed the language quota', async () => {
+      await db.destroy();
+      db = new JpdictDatabase({ languageQuota: 10 });
+
+      await db.update({ series: 'kanji', lang: 'en' });
+      await db.update({ series: 'kanji', lang: 'fr' });
+      await db.update({ series: 'kanji', lang: 'en' });
+
+      assert.deepEqual(await getMeanings(), ['en']);
+      assert.equal(fetchMock.calls('end:kanji-rc-en-4.0.0.ljson').length, 2);
+    });
+
+    it('should report the languages offered for each series', async () => {
+      fetchMock.mock(
+        'end:jpdict-rc-fr-version.json',
+        {
+          kanji: {
+            '4': {
+              ...VERSION_INFO.kanji['4'],
+              patch: 1,
+              sizes: { '0': 1000, '1': 50 },
+            },
+          },
+          radicals: VERSION_INFO.radicals,
+        },
+        { overwriteRoutes: true }
+      );
+      fetchMock.mock('end:jpdict-rc-sv-version.json', 404);
+
+      const languages = await db.getAvailableLanguages({
+        languages: ['en', 'fr', 'sv'],
+      });
+
+      assert.deepEqual(languages.kanji, [
+        { lang: 'en', ...VERSION_INFO.kanji['4'] },
+        {
+          lang: 'fr',
+          ...VERSION_INFO.kanji['4'],
+          patch: 1,
+          size: 1050,
+        },
+      ]);
+      assert.deepEqual(
+        languages.names.map(({ lang }) => lang),
+        ['en']
+      );
+      assert.deepEqual(languages.words, []);
+      assert.deepEqual(languages.errors, []);
+    });
+
+    it('should report the languages it fails to check', async () => {
+      fetchMock.mock('end:jpdict-rc-fr-version.json', 503, {
+        overwriteRoutes: true,
+      });
+
+      const languages = await db.getAvailableLanguages({
+        languages: ['en', 'fr'],
+      });
+
+      assert.deepEqual(
+        languages.kanji.map(({ lang }) => lang),
+        ['en']
+      );
+      assert.deepEqual(
+        languages.errors.map(({ lang }) => lang),
+        ['fr']
+      );
+      assert.instanceOf(languages.errors[0].error, DownloadError);
+      assert.equal(
+        (languages.errors[0].error as DownloadError).code,
+        DownloadErrorCode.VersionFileNotAccessible
+      );
+    });
+
+    it('should report when falling back to another language', async () => {
+      fetchMock.mock('end:jpdict-rc-sv-version.json', 404);
+
+      await db.update({ series: 'kanji', lang: 'sv' });
+
+      assert.equal(db.kanji.version!.lang, 'en');
+      assert.deepEqual(db.kanji.languageFallback, {
+        requestedLang: 'sv',
+        lang: 'en',
+      });
+      assert.deepEqual(db.radicals.languageFallback, {
+        requestedLang: 'sv',
+        lang: 'en',
+      });
+
+      await db.update({ series: 'kanji', lang: 'fr' });
+
+      assert.equal(db.kanji.version!.lang, 'fr');
+      assert.isUndefined(db.kanji.languageFallback);
+    });
+
+    it('should not fall back to another language when it fails to check the requested one', async () => {
+      fetchMock.mock('end:jpdict-rc-fr-version.json', 503, {
+        overwriteRoutes: true,
+      });
+
+      let exception;
+      try {
+        await db.update({ series: 'kanji', lang: 'fr' });
+      } catch (e) {
+        exception = e;
+      }
+
+      assert.instanceOf(exception, DownloadError);
+      assert.equal(
+        (exception as DownloadError).code,
+        DownloadErrorCode.VersionFileNotAccessible
+      );
+      assert.isNull(db.kanji.version);
+      assert.isUndefined(db.kanji.languageFallback);
+      assert.equal(fetchMock.calls('end:kanji-rc-en-4.0.0.ljson').length, 0);
+    });
+
+    it('should drop all languages when deleting a series', async () => {
+      await db.update({ series: 'kanji', lang: 'en' });
+      await db.update({ series: 'kanji', lang: 'fr' });
+      await db.deleteSeries('kanji');
+
+      assert.isFalse(await db.store.hasLanguageData('kanji', 'en'));
+
+      await db.update({ series: 'kanji', lang: 'en' });
+
+      assert.equal(fetchMock.calls('end:kanji-rc-en-4.0.0.ljson').length, 2);
+    });
+  });
+
   it('should allow different series to be downloaded in parallel', async () => {
     fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_INFO);
     fetchMock.mock(
@@ -214,6 +595,111 @@ describe('database', function () {
     assert.equal(db.names.version!.major, 3);
   });
 
+  describe('other contexts', () => {
+    let otherDb: JpdictDatabase;
+
+    beforeEach(async () => {
+      otherDb = new JpdictDatabase();
+      await Promise.all([db.ready, otherDb.ready]);
+
+      fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_INFO);
+      fetchMock.mock(
+        'end:kanji-rc-en-4.0.0.ljson',
+        `{"type":"header","version":{"major":4,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":0}
+`
+      );
+      fetchMock.mock(
+        'end:radicals-rc-en-4.0.0.ljson',
+        `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":0}
+`
+      );
+    });
+
+    afterEach(async () => {
+      await otherDb.destroy();
+    });
+
+    it('should not run the same update in two contexts at once', async () => {
+      const otherStates: Array<string> = [];
+      otherDb.addChangeListener(() => {
+        otherStates.push(otherDb.kanji.updateState.state);
+      });
+
+      await Promise.all([
+        db.update({ series: 'kanji', lang: 'en' }),
+        otherDb.update({ series: 'kanji', lang: 'en' }),
+      ]);
+
+      assert.equal(fetchMock.calls('end:kanji-rc-en-4.0.0.ljson').length, 1);
+      assert.equal(otherDb.kanji.version!.major, 4);
+      assert.equal(otherDb.kanji.state, DataSeriesState.Ok);
+
+      // The other context should have reflected our update while it was
+      // waiting for it to finish.
+      assert.include(otherStates, 'updatingdb');
+    });
+
+    it('should reflect updates run in other contexts', async () => {
+      const otherUpdated = new Promise<void>((resolve) => {
+        otherDb.addChangeListener(() => {
+          if (otherDb.kanji.version && otherDb.kanji.updateState.lastCheck) {
+            resolve();
+          }
+        });
+      });
+
+      await db.update({ series: 'kanji', lang: 'en' });
+      await otherUpdated;
+
+      assert.deepEqual(otherDb.kanji.version, db.kanji.version);
+      assert.equal(otherDb.kanji.state, DataSeriesState.Ok);
+      assert.deepEqual(otherDb.kanji.updateState, db.kanji.updateState);
+    });
+
+    it('should stop reflecting an update when the other context goes away', async () => {
+      // Simulate a context that starts an update but goes away before
+      // finishing it.
+      const release = await holdUpdateLock('kanji');
+      const channel = openUpdateChannel(() => {})!;
+
+      const reflectingUpdate = new Promise<void>((resolve) => {
+        db.addChangeListener(() => {
+          if (db.kanji.updateState.state === 'checking') {
+            resolve();
+          }
+        });
+      });
+      channel.postMessage({
+        type: 'seriesstate',
+        series: 'kanji',
+        version: null,
+        updateState: { state: 'checking', series: 'kanji', lastCheck: null },
+      });
+      await reflectingUpdate;
+
+      const backToIdle = new Promise<void>((resolve) => {
+        db.addChangeListener(() => {
+          if (db.kanji.updateState.state === 'idle') {
+            resolve();
+          }
+        });
+      });
+      release();
+      channel.close();
+      await backToIdle;
+
+      assert.isNull(db.kanji.version);
+      assert.deepEqual(db.kanji.updateState, {
+        state: 'idle',
+        lastCheck: null,
+      });
+
+      // And we should be able to run updates again
+      await db.update({ series: 'kanji', lang: 'en' });
+      assert.equal(db.kanji.version!.major, 4);
+    });
+  });
+
   it('should handle error actions', async () => {
     fetchMock.mock('end:jpdict-rc-en-version.json', 404);
 
@@ -275,6 +761,80 @@ describe('database', function () {
     db.cancelUpdate({ series: 'kanji' });
   });
 
+  it('should allow pausing and resuming the update', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_INFO);
+    fetchMock.mock(
+      'end:kanji-rc-en-4.0.0.ljson',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":1}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+`
+    );
+    fetchMock.mock(
+      'end:radicals-rc-en-4.0.0.ljson',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":0}
+`
+    );
+
+    let paused = false;
+    db.addChangeListener(() => {
+      if (!paused && db.kanji.updateState.state === 'downloading') {
+        paused = db.pauseUpdate({ series: 'kanji' });
+      }
+    });
+
+    let finished = false;
+    const update = db.update({ series: 'kanji', lang: 'en' }).then(() => {
+      finished = true;
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    assert.isTrue(paused);
+    assert.isFalse(finished);
+    assert.equal(db.kanji.updateState.state, 'paused');
+    assert.equal(
+      (db.kanji.updateState as PausedUpdateState).resumeState.state,
+      'downloading'
+    );
+    assert.isNull(db.kanji.version);
+
+    // Redundant calls should be ignored
+    assert.isFalse(db.pauseUpdate({ series: 'kanji' }));
+
+    assert.isTrue(db.resumeUpdate({ series: 'kanji' }));
+    assert.equal(db.kanji.updateState.state, 'downloading');
+
+    await update;
+
+    assert.isTrue(finished);
+    assert.equal(db.kanji.state, DataSeriesState.Ok);
+    assert.equal(db.kanji.updateState.state, 'idle');
+    assert.isFalse(db.resumeUpdate({ series: 'kanji' }));
+  });
+
+  it('should allow canceling a paused update', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_INFO);
+    fetchMock.mock(
+      'end:kanji-rc-en-4.0.0.ljson',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":0}
+`
+    );
+
+    const update = db.update({ series: 'kanji', lang: 'en' });
+    assert.isTrue(db.pauseUpdate({ series: 'kanji' }));
+    db.cancelUpdate({ series: 'kanji' });
+
+    let exception;
+    try {
+      await update;
+    } catch (e) {
+      exception = e;
+    }
+
+    assert.equal(exception?.name, 'AbortError');
+    assert.deepEqual(db.kanji.updateState, { state: 'idle', lastCheck: null });
+  });
+
   it('should allow canceling the update mid-stream', async () => {
     fetchMock.mock('end:jpdict-rc-en-version.json', {
       kanji: {
@@ -371,7 +931,7 @@ describe('database', function () {
     const constraintError = new Error('Constraint error');
     constraintError.name = 'ConstraintError';
 
-    const stub = sinon.stub(db.store, 'bulkUpdateTable');
+    const stub = sinon.stub(db.store, 'swapShadowTable');
     stub.throws(constraintError);
 
     try {
@@ -412,4 +972,632 @@ describe('database', function () {
     assert.equal(db.radicals.state, DataSeriesState.Empty);
     assert.equal(db.names.state, DataSeriesState.Ok);
   });
+
+  it('should re-download the data when the source changes', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_INFO);
+    fetchMock.mock(
+      'end:kanji-rc-en-4.0.0.ljson',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":0}
+`
+    );
+    fetchMock.mock(
+      'end:radicals-rc-en-4.0.0.ljson',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":0}
+`
+    );
+
+    await db.update({ series: 'kanji', lang: 'en' });
+
+    assert.isUndefined(db.kanji.version!.source);
+
+    await db.update({
+      series: 'kanji',
+      lang: 'en',
+      baseUrl: 'https://example.org/jpdict/',
+    });
+
+    assert.isTrue(
+      fetchMock.called('https://example.org/jpdict/kanji-rc-en-4.0.0.ljson'),
+      'Should fetch the data from the new source'
+    );
+    assert.strictEqual(db.kanji.version!.source, 'https://example.org/jpdict/');
+    assert.strictEqual(
+      db.radicals.version!.source,
+      'https://example.org/jpdict/'
+    );
+  });
+
+  it('should use the base URL and file naming passed to the constructor', async () => {
+    await db.destroy();
+    db = new JpdictDatabase({
+      baseUrl: 'https://example.org/',
+      fileNaming: {
+        versionFile: ({ lang }) => `${lang}/version.json`,
+        databaseFile: ({ series, lang, version }) =>
+          `${lang}/${series}-${version.major}.${version.minor}.${version.patch}.ljson`,
+      },
+    });
+
+    fetchMock.mock('https://example.org/en/version.json', VERSION_INFO);
+    fetchMock.mock(
+      'https://example.org/en/kanji-4.0.0.ljson',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":0}
+`
+    );
+    fetchMock.mock(
+      'https://example.org/en/radicals-4.0.0.ljson',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":0}
+`
+    );
+
+    await db.update({ series: 'kanji', lang: 'en' });
+
+    assert.equal(db.kanji.state, DataSeriesState.Ok);
+    assert.match(db.kanji.version!.source!, /^https:\/\/example\.org\/#\w+$/);
+  });
+
+  it('should re-download the data when the file naming changes', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_INFO);
+    fetchMock.mock(
+      'end:kanji-rc-en-4.0.0.ljson',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":0}
+`
+    );
+    fetchMock.mock(
+      'end:radicals-rc-en-4.0.0.ljson',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":0}
+`
+    );
+    fetchMock.mock(
+      'end:kanji-4.0.0.ljson',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":0}
+`
+    );
+    fetchMock.mock(
+      'end:radicals-4.0.0.ljson',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":0}
+`
+    );
+
+    await db.update({ series: 'kanji', lang: 'en' });
+
+    assert.isUndefined(db.kanji.version!.source);
+
+    // Naming functions that produce the default names should not count as
+    // a change.
+    await db.update({
+      series: 'kanji',
+      lang: 'en',
+      fileNaming: {
+        versionFile: ({ lang }) => `jpdict-rc-${lang}-version.json`,
+      },
+    });
+
+    assert.isUndefined(db.kanji.version!.source);
+    assert.isFalse(fetchMock.called('end:kanji-4.0.0.ljson'));
+
+    await db.update({
+      series: 'kanji',
+      lang: 'en',
+      fileNaming: {
+        databaseFile: ({ series, version }) =>
+          `${series}-${version.major}.${version.minor}.${version.patch}.ljson`,
+      },
+    });
+
+    assert.isTrue(
+      fetchMock.called('end:kanji-4.0.0.ljson'),
+      'Should fetch the data using the new file naming'
+    );
+    assert.isDefined(db.kanji.version!.source);
+    assert.strictEqual(db.radicals.version!.source, db.kanji.version!.source);
+  });
+
+  it('should allow importing a series from a local file', async () => {
+    const file = new Blob([
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":0}
+`,
+    ]);
+
+    await db.importSeries({ series: 'kanji', source: file });
+
+    assert.isFalse(fetchMock.called(), 'Should not fetch anything');
+    assert.equal(db.kanji.state, DataSeriesState.Ok);
+    assert.deepEqual(db.kanji.version, {
+      major: 4,
+      minor: 0,
+      patch: 0,
+      databaseVersion: '175',
+      dateOfCreation: '2019-07-09',
+      lang: 'en',
+    });
+    assert.deepEqual(db.kanji.updateState.state, 'idle');
+  });
+
+  it('should not import a patch that does not apply to the current data', async () => {
+    const file = new Blob([
+      `{"type":"header","version":{"major":4,"minor":0,"patch":2,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":0}
+`,
+    ]);
+
+    let exception;
+    try {
+      await db.importSeries({ series: 'kanji', source: file });
+    } catch (e) {
+      exception = e;
+    }
+
+    assert.isDefined(exception);
+    assert.equal(exception?.name, 'DownloadError');
+    assert.equal(
+      exception?.code,
+      DownloadErrorCode.DatabaseFileVersionMismatch
+    );
+    assert.isNull(db.kanji.version);
+  });
+
+  it('should not import a file older than the current data', async () => {
+    const header = (patch: number) =>
+      `{"type":"header","version":{"major":4,"minor":0,"patch":${patch},"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":0,"snapshot":true}\n`;
+
+    await db.importSeries({ series: 'kanji', source: new Blob([header(2)]) });
+
+    let exception;
+    try {
+      await db.importSeries({ series: 'kanji', source: new Blob([header(1)]) });
+    } catch (e) {
+      exception = e;
+    }
+
+    assert.isDefined(exception);
+    assert.equal(exception?.name, 'DownloadError');
+    assert.equal(exception?.code, DownloadErrorCode.DatabaseTooOld);
+    assert.strictEqual(db.kanji.version!.patch, 2);
+
+    // Unless we explicitly allow it
+    await db.importSeries({
+      series: 'kanji',
+      source: new Blob([header(1)]),
+      allowDowngrade: true,
+    });
+
+    assert.strictEqual(db.kanji.version!.patch, 1);
+  });
+
+  it('should report the path to any invalid fields', async () => {
+    const file = `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2022-04-05"},"records":1}
+{"id":1,"r":["かきまわす"],"rm":[{"a":[{"i":-1}]}],"s":[{"g":["to stir"]},{"g":["to churn"],"xref":[{"sense":1}]}]}
+`;
+
+    let exception;
+    try {
+      await db.importSeries({ series: 'words', source: new Blob([file]) });
+    } catch (e) {
+      exception = e;
+    }
+
+    assert.instanceOf(exception, DownloadError);
+    assert.deepEqual(
+      (exception as DownloadError).diagnostics?.validationFailures,
+      [
+        {
+          path: 'rm[0].a[0].i',
+          message: 'expected a finite positive number but got -1',
+        },
+        {
+          path: 's[1].xref[0]',
+          message: 'expected either k or r to be present',
+        },
+      ]
+    );
+  });
+
+  describe('unrecognized tags', () => {
+    const file = `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2022-04-05"},"records":1}
+{"id":1,"r":["かきまわす"],"rm":[{"a":[{"i":0,"pos":["v5zz"]}]}],"s":[{"pos":["v5s","v5zz"],"misc":["new-misc"],"g":["to stir"]}],"k":["かき回す"],"km":[{"i":["new-ki"]}]}
+`;
+
+    it('should preserve unrecognized sense tags by default', async () => {
+      const senseTagsFile = `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2022-04-05"},"records":1}
+{"id":1,"r":["かきまわす"],"s":[{"pos":["v5s","v5zz"],"misc":["new-misc"],"g":["to stir"]}],"k":["かき回す"]}
+`;
+      await db.importSeries({
+        series: 'words',
+        source: new Blob([senseTagsFile]),
+      });
+
+      const exported = await new Response(
+        await db.exportSeries('words')
+      ).text();
+      assert.deepEqual(
+        JSON.parse(exported.split('\n')[1]),
+        JSON.parse(senseTagsFile.split('\n')[1])
+      );
+    });
+
+    it('should reject unrecognized kanji and reading info by default', async () => {
+      let exception;
+      try {
+        await db.importSeries({ series: 'words', source: new Blob([file]) });
+      } catch (e) {
+        exception = e;
+      }
+
+      assert.instanceOf(exception, DownloadError);
+      assert.equal(
+        (exception as DownloadError).code,
+        DownloadErrorCode.DatabaseFileInvalidRecord
+      );
+      assert.deepEqual(
+        (exception as DownloadError).diagnostics?.validationFailures?.map(
+          ({ path }) => path
+        ),
+        ['km[0].i[0]', 'rm[0].a[0].pos[0]']
+      );
+    });
+
+    it('should drop unrecognized tags when requested', async () => {
+      await db.destroy();
+      db = new JpdictDatabase({ unknownTags: 'drop' });
+      const warn = sinon.stub(console, 'warn');
+
+      await db.importSeries({ series: 'words', source: new Blob([file]) });
+
+      const exported = await new Response(
+        await db.exportSeries('words')
+      ).text();
+      assert.deepEqual(JSON.parse(exported.split('\n')[1]), {
+        id: 1,
+        r: ['かきまわす'],
+        rm: [{ a: [{ i: 0 }] }],
+        s: [{ pos: ['v5s'], g: ['to stir'] }],
+        k: ['かき回す'],
+        km: [{}],
+      });
+
+      // We should only warn once per tag
+      assert.strictEqual(warn.callCount, 3);
+    });
+
+    it('should reject records with unrecognized tags when requested', async () => {
+      await db.destroy();
+      db = new JpdictDatabase({ unknownTags: 'reject' });
+
+      let exception;
+      try {
+        await db.importSeries({ series: 'words', source: new Blob([file]) });
+      } catch (e) {
+        exception = e;
+      }
+
+      assert.instanceOf(exception, DownloadError);
+      assert.equal(
+        (exception as DownloadError).code,
+        DownloadErrorCode.DatabaseFileInvalidRecord
+      );
+      assert.deepEqual(
+        (exception as DownloadError).diagnostics?.validationFailures?.map(
+          ({ path }) => path
+        ),
+        ['km[0].i[0]', 'rm[0].a[0].pos[0]', 's[0].pos[1]', 's[0].misc[0]']
+      );
+    });
+  });
+
+  it('should skip invalid records when requested', async () => {
+    await db.destroy();
+    db = new JpdictDatabase({ invalidRecords: 'quarantine' });
+
+    const header = (patch: number, records: number, snapshot = false) =>
+      `{"type":"header","version":{"major":4,"minor":0,"patch":${patch},"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":${records}${
+        snapshot ? ',"snapshot":true' : ''
+      }}`;
+    const entry =
+      '{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}';
+
+    await db.importSeries({
+      series: 'kanji',
+      source: new Blob([
+        `${header(0, 2)}
+${entry}
+{"c":"㐆","r":{},"m":[]}
+`,
+      ]),
+    });
+
+    assert.equal(db.kanji.state, DataSeriesState.Ok);
+    assert.isTrue(db.kanji.degraded);
+    assert.strictEqual(db.kanji.version!.quarantined, 1);
+    assert.deepEqual(db.kanji.quarantine, [
+      { lineNumber: 3, line: '{"c":"㐆","r":{},"m":[]}', field: 'rad' },
+    ]);
+    assert.strictEqual(db.kanji.quarantineCount, 1);
+
+    // Applying a patch should not clear the degraded state
+    await db.importSeries({
+      series: 'kanji',
+      source: new Blob([`${header(1, 1)}\n${entry}\n`]),
+    });
+
+    assert.isTrue(db.kanji.degraded);
+    assert.strictEqual(db.kanji.version!.quarantined, 1);
+
+    // But a full update should
+    await db.importSeries({
+      series: 'kanji',
+      source: new Blob([`${header(1, 1, true)}\n${entry}\n`]),
+    });
+
+    assert.isFalse(db.kanji.degraded);
+    assert.isUndefined(db.kanji.version!.quarantined);
+  });
+
+  it('should only keep a limited number of skipped records', async () => {
+    await db.destroy();
+    db = new JpdictDatabase({ invalidRecords: 'quarantine' });
+
+    const invalidRecords = Array.from(
+      { length: 150 },
+      (_, i) => `{"c":"${String.fromCodePoint(0x4e00 + i)}","r":{},"m":[]}`
+    );
+    const changes: Array<ChangeTopic> = [];
+    db.addChangeListener((topic) => changes.push(topic));
+
+    await db.importSeries({
+      series: 'kanji',
+      source: new Blob([
+        `{"type":"header","version":{"major":4,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":150}
+${invalidRecords.join('\n')}
+`,
+      ]),
+    });
+
+    assert.strictEqual(db.kanji.version!.quarantined, 150);
+    assert.strictEqual(db.kanji.quarantineCount, 150);
+    assert.lengthOf(db.kanji.quarantine!, 100);
+    assert.strictEqual(db.kanji.quarantine![99].lineNumber, 101);
+
+    // We shouldn't notify listeners for each skipped record
+    assert.isBelow(changes.length, 50);
+  });
+
+  it('should migrate data stored for a different major version', async () => {
+    await db.ready;
+    await db.store.bulkUpdateTable({
+      table: 'kanji',
+      put: [
+        {
+          c: 13318,
+          r: {},
+          m: ['to follow'],
+          rad: { x: 4 },
+          refs: {},
+          misc: { sc: 6 },
+        },
+      ],
+      drop: '*',
+      version: {
+        ...VERSION_INFO.kanji['4'],
+        major: 3,
+        patch: 2,
+        lang: 'en',
+      },
+    });
+
+    previousDbs.push(db);
+    db = new JpdictDatabase();
+    await db.ready;
+    assert.equal(db.kanji.state, DataSeriesState.Ok);
+    assert.strictEqual(db.kanji.version!.major, 3);
+
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_INFO);
+    fetchMock.mock(
+      'end:kanji-rc-en-4.0.0.ljson',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":1}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+`
+    );
+    fetchMock.mock(
+      'end:radicals-rc-en-4.0.0.ljson',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":0}
+`
+    );
+
+    let stateWhileDownloading: MigratingUpdateState | undefined;
+    let versionWhileDownloading: number | undefined;
+    db.addChangeListener(() => {
+      const { updateState } = db.kanji;
+      if (
+        !stateWhileDownloading &&
+        updateState.state === 'migrating' &&
+        updateState.migrationState.state === 'downloading'
+      ) {
+        stateWhileDownloading = updateState;
+        versionWhileDownloading = db.kanji.version?.major;
+      }
+    });
+
+    await db.update({ series: 'kanji', lang: 'en' });
+
+    assert.isDefined(stateWhileDownloading);
+    assert.strictEqual(stateWhileDownloading!.fromVersion.major, 3);
+    assert.strictEqual(stateWhileDownloading!.majorVersion, 4);
+    assert.strictEqual(versionWhileDownloading, 3);
+    assert.equal(db.radicals.updateState.state, 'idle');
+
+    assert.equal(db.kanji.state, DataSeriesState.Ok);
+    assert.deepEqual(
+      stripFields(db.kanji.version!, ['lang']),
+      VERSION_INFO.kanji['4']
+    );
+    assert.deepEqual(db.kanji.updateState, {
+      state: 'idle',
+      lastCheck: db.kanji.updateState.lastCheck,
+    });
+    assert.deepEqual(
+      (await db.store._getKanji([13314, 13318])).map(({ c }) => c),
+      [13314]
+    );
+  });
+
+  describe('interrupted updates', () => {
+    const KANJI_4_0_0 = {
+      major: 4,
+      minor: 0,
+      patch: 0,
+      databaseVersion: '175',
+      dateOfCreation: '2019-07-09',
+      lang: 'en',
+    };
+    const KANJI_RECORD = {
+      c: 13314,
+      r: {},
+      m: [],
+      rad: { x: 1 },
+      refs: {},
+      misc: { sc: 6 },
+    };
+
+    // Simulates a full update that was interrupted after writing a record to
+    // the shadow table, and then re-opens the database.
+    const interruptFullUpdate = async ({
+      version = KANJI_4_0_0,
+      phase,
+    }: {
+      version?: typeof KANJI_4_0_0;
+      phase: 'apply' | 'commit';
+    }) => {
+      await db.ready;
+      await db.store.putShadowRecords({
+        table: 'kanji',
+        put: [KANJI_RECORD],
+        checkpoint: {
+          series: 'kanji',
+          version,
+          phase,
+          recordsCommitted: 1,
+          quarantined: 0,
+        },
+      });
+
+      previousDbs.push(db);
+      db = new JpdictDatabase();
+      await db.ready;
+    };
+
+    it('should complete an update that was interrupted just before committing', async () => {
+      await interruptFullUpdate({ phase: 'commit' });
+
+      assert.equal(db.kanji.state, DataSeriesState.Ok);
+      assert.deepEqual(db.kanji.version, KANJI_4_0_0);
+      assert.isUndefined(db.kanji.pendingUpdate);
+      assert.deepEqual(await db.store._getKanji([13314]), [KANJI_RECORD]);
+      assert.isUndefined(await db.store.getCheckpoint('kanji'));
+    });
+
+    it('should report an interrupted update as pending', async () => {
+      await interruptFullUpdate({ phase: 'apply' });
+
+      assert.equal(db.kanji.state, DataSeriesState.Empty);
+      assert.deepEqual(db.kanji.pendingUpdate, {
+        version: KANJI_4_0_0,
+        phase: 'apply',
+        recordsCommitted: 1,
+      });
+      assert.deepEqual(await db.store._getKanji([13314]), []);
+    });
+
+    it('should resume a pending update', async () => {
+      await interruptFullUpdate({ phase: 'apply' });
+
+      // The first record here differs from the one we already wrote so we can
+      // check it was skipped.
+      await db.importSeries({
+        series: 'kanji',
+        source: new Blob([
+          `{"type":"header","version":{"major":4,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":2}
+{"c":"㐂","r":{},"m":["changed"],"rad":{"x":1},"refs":{},"misc":{"sc":6}}
+{"c":"㐆","r":{},"m":["to follow"],"rad":{"x":4},"refs":{},"misc":{"sc":6}}
+`,
+        ]),
+      });
+
+      assert.equal(db.kanji.state, DataSeriesState.Ok);
+      assert.isUndefined(db.kanji.pendingUpdate);
+      assert.deepEqual(
+        (await db.store._getKanji([13314, 13318])).map(({ m }) => m),
+        [[], ['to follow']]
+      );
+    });
+
+    it('should roll back an interrupted update for an unsupported version', async () => {
+      await interruptFullUpdate({
+        version: { ...KANJI_4_0_0, major: 3 },
+        phase: 'commit',
+      });
+
+      assert.equal(db.kanji.state, DataSeriesState.Empty);
+      assert.isUndefined(db.kanji.pendingUpdate);
+      assert.isUndefined(await db.store.getCheckpoint('kanji'));
+      assert.deepEqual(await db.store._getKanji([13314]), []);
+    });
+  });
+
+  it('should export the stored data in the same format it was imported', async () => {
+    const file = `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2022-04-05"},"records":2}
+{"id":1,"r":["かきまわす"],"s":[{"pos":["v5s","vt"],"g":["to stir","to churn","to poke (a fire)","to disturb (water)"]}],"k":["かき回す","掻き回す"],"km":[0,{"p":["i2"]}],"rm":[{"p":["i2"],"a":[{"i":0},{"i":4}]}]}
+{"id":11,"r":["かきな","カキナ"],"s":[{"pos":["n"],"g":["kakina (green leafy vegetable of the genus Brassica)"],"misc":["uk"]}],"k":["かき菜"],"rm":[0,{"app":0}]}
+`;
+
+    await db.importSeries({ series: 'words', source: new Blob([file]) });
+
+    const exported = await new Response(await db.exportSeries('words')).text();
+
+    assert.deepEqual(
+      exported.split('\n').map((line) => (line ? JSON.parse(line) : line)),
+      file.split('\n').map((line) => (line ? JSON.parse(line) : line))
+    );
+  });
+
+  it('should mark exported data that has been patched as a snapshot', async () => {
+    const file = `{"type":"header","version":{"major":4,"minor":0,"patch":3,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":2,"snapshot":true}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+{"c":"㐆","r":{},"m":["to follow","to trust to","to put confidence in","to depend on","to turn around","to turn the body"],"rad":{"x":4},"refs":{},"misc":{"sc":6}}
+`;
+
+    await db.importSeries({ series: 'kanji', source: new Blob([file]) });
+    assert.equal(db.kanji.version!.patch, 3);
+
+    const exported = await new Response(await db.exportSeries('kanji')).text();
+    assert.equal(exported, file);
+  });
+
+  it('should not update a series while it is being exported', async () => {
+    const header = (minor: number) =>
+      `{"type":"header","version":{"major":4,"minor":${minor},"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":1}`;
+    const record = `{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}`;
+
+    const file = `${header(0)}\n${record}\n`;
+    await db.importSeries({ series: 'kanji', source: new Blob([file]) });
+
+    const stream = await db.exportSeries('kanji');
+
+    let imported = false;
+    const importPromise = db
+      .importSeries({
+        series: 'kanji',
+        source: new Blob([`${header(1)}\n${record}\n`]),
+      })
+      .then(() => {
+        imported = true;
+      });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.isFalse(imported);
+
+    const exported = await new Response(stream).text();
+    assert.equal(exported, file);
+
+    await importPromise;
+    assert.equal(db.kanji.version!.minor, 1);
+  });
 });
@@ -1,14 +1,57 @@
 import { jsonEqualish } from '@birchill/json-equalish';
 
 import { AbortError } from './abort-error';
-import { DataSeries, MajorDataSeries, allDataSeries } from './data-series';
+import {
+  DataSeries,
+  MajorDataSeries,
+  allDataSeries,
+  allMajorDataSeries,
+} from './data-series';
 import { DataVersion } from './data-version';
-import { hasLanguage, download } from './download';
-import { isKanjiEntryLine, isKanjiDeletionLine } from './kanji';
-import { isRadicalEntryLine, isRadicalDeletionLine } from './radicals';
-import { isNameEntryLine, isNameDeletionLine } from './names';
-import { JpdictStore } from './store';
+import {
+  compareVersions,
+  CompressionFormat,
+  Decompressor,
+  DEFAULT_BASE_URL,
+  FileNaming,
+  getFileNamingId,
+  getLanguageInfo,
+  hasLanguage,
+  download,
+  InvalidRecordPolicy,
+  LanguageInfo,
+  PrefetchOptions,
+  QuarantinedRecord,
+  readDatabaseFile,
+  TransportOptions,
+  VersionFileCacheOptions,
+} from './download';
+import { exportSeries } from './export';
+import {
+  isKanjiEntryLine,
+  isKanjiDeletionLine,
+  validateKanjiEntryLine,
+} from './kanji';
+import {
+  isRadicalEntryLine,
+  isRadicalDeletionLine,
+  validateRadicalEntryLine,
+} from './radicals';
+import {
+  isNameEntryLine,
+  isNameDeletionLine,
+  validateNameEntryLine,
+} from './names';
+import { JpdictStore, UpdateCheckpoint, UpdatePhase } from './store';
 import { UpdateAction } from './update-actions';
+import {
+  holdUpdateLock,
+  openUpdateChannel,
+  SeriesStateMessage,
+  tryWithUpdateLock,
+  whenUpdateLockFree,
+  withUpdateLock,
+} from './update-coordination';
 import { UpdateState } from './update-state';
 import { reducer as updateReducer } from './update-reducer';
 import {
@@ -18,7 +61,15 @@ import {
   updateWords,
   UpdateOptions,
 } from './update';
-import { isWordDeletionLine, isWordEntryLine } from './words';
+import { defaultVersionFileCache } from './version-file-cache';
+import { ValidationFailure } from './validation';
+import {
+  isWordDeletionLine,
+  isWordEntryLine,
+  UnknownTagPolicy,
+  validateWordEntryLine,
+  WordEntryLine,
+} from './words';
 
 const MAJOR_VERSION: { [series in DataSeries]: number } = {
   kanji: 4,
@@ -45,54 +96,279 @@ export type ChangeCallback = (topic: ChangeTopic) => void;
 type DataSeriesInfo = {
   state: DataSeriesState;
   version: DataVersion | null;
+  // True if some records were skipped since the last full update (see the
+  // `invalidRecords` option) such that the data is incomplete.
+  degraded: boolean;
+  // The records skipped during the most recent update, if any.
+  //
+  // At most MAX_QUARANTINED_RECORDS records are kept (see quarantineCount for
+  // the total number skipped).
+  quarantine?: Array<QuarantinedRecord>;
+  // The number of records skipped during the most recent update, if any.
+  quarantineCount?: number;
+  // An update that was interrupted (e.g. because the page was closed) and
+  // which will be resumed by the next call to update(), if any.
+  pendingUpdate?: PendingUpdate;
+  // Set when the language requested in the most recent update is not
+  // offered for this series such that we used the data for another language
+  // instead.
+  languageFallback?: LanguageFallback;
   updateState: UpdateState;
 };
 
+type LanguageFallback = {
+  // The language that was requested
+  requestedLang: string;
+  // The language used instead (currently always English)
+  lang: string;
+};
+
+type PendingUpdate = {
+  // The version being applied
+  version: DataVersion;
+  phase: UpdatePhase;
+  // The number of records from the file for the version that have already
+  // been applied
+  recordsCommitted: number;
+};
+
+export type JpdictDatabaseOptions = {
+  verbose?: boolean;
+  // The URL (including a trailing slash) of the directory from which to fetch
+  // the data files.
+  baseUrl?: string;
+  // Functions for producing the names of the data files (for servers that use
+  // a different naming scheme to the default one).
+  fileNaming?: FileNaming;
+  // The compression format, if any, of the database files on the server.
+  compression?: CompressionFormat;
+  // A custom decompressor to use for compressed database files.
+  decompress?: Decompressor;
+  // Options for customizing how files are fetched (e.g. adding authentication
+  // headers or using a custom fetch function).
+  transport?: TransportOptions;
+  // If set, subsequent patches will be fetched while the current one is being
+  // applied.
+  prefetch?: PrefetchOptions;
+  // Options for caching the version file (which describes the latest version
+  // of each series).
+  versionFileCache?: VersionFileCacheOptions;
+  // How to handle records in the downloaded files that we don't recognize.
+  //
+  // Defaults to 'reject' which fails the update. Setting this to 'quarantine'
+  // skips such records instead (marking the series as degraded).
+  invalidRecords?: InvalidRecordPolicy;
+  // How to handle tags in the words data (e.g. parts of speech) that we don't
+  // recognize. Defaults to 'preserve'.
+  unknownTags?: UnknownTagPolicy;
+  // If set, patches are applied in chunks of this many records as they are
+  // downloaded rather than being held in memory until the whole patch has
+  // been downloaded.
+  //
+  // This limits memory usage (e.g. on low-memory devices) but means that
+  // a partially-applied patch may be visible while the update is in progress.
+  // If the update is interrupted, it will resume from the last chunk applied.
+  updateChunkSize?: number;
+  // The number of languages to keep the data for, per series.
+  //
+  // When updating a series to a different language, we keep the data for the
+  // previous language so that switching back to it does not require
+  // downloading it again. Once we have data for more than this many languages,
+  // we drop the data for the least recently used language.
+  //
+  // Defaults to 2. Setting this to 1 drops the data for the previous language
+  // as soon as we switch language. At most 3 languages can be kept.
+  maxLanguages?: number;
+  // The approximate amount of storage, in bytes, to use for the data for
+  // languages other than the current one, per series.
+  //
+  // When we reach this limit, we drop the data for the least recently used
+  // languages first. Regardless of this setting, we don't keep the data for
+  // other languages when we are running out of storage.
+  //
+  // Defaults to no limit.
+  languageQuota?: number;
+};
+
+// The result of updating a series using updateAll.
+export type UpdateAllResult = {
+  series: MajorDataSeries;
+  // The version of the data after the update
+  version: DataVersion | null;
+  // Set if the update failed
+  error?: unknown;
+};
+
+// The languages offered for each series (see getAvailableLanguages).
+export type AvailableLanguages = {
+  [series in DataSeries]: Array<LanguageInfo>;
+} & {
+  // The languages we could not check (e.g. due to a network error) along with
+  // the error we got for each one.
+  errors: Array<{ lang: string; error: unknown }>;
+};
+
+// The languages we know of data being published in.
+const KNOWN_LANGUAGES: ReadonlyArray<string> = [
+  'en',
+  'de',
+  'es',
+  'fr',
+  'hu',
+  'nl',
+  'pt',
+  'ru',
+  'sl',
+  'sv',
+];
+
+// The maximum number of skipped records to keep for each series.
+//
+// When the format of the data changes such that we fail to recognize every
+// record in a file, keeping them all would hold the whole file in memory.
+const MAX_QUARANTINED_RECORDS = 100;
+
+// The approximate relative size of each series, used to order the series when
+// updating them all and to weight their progress.
+const SERIES_SIZE: { [series in MajorDataSeries]: number } = {
+  kanji: 1,
+  words: 15,
+  names: 55,
+};
+
+// The approximate peak memory, in bytes, used when updating each series
+// without applying patches in chunks (i.e. when each file is held in memory
+// until it has been downloaded in full). Used to schedule updates within
+// a memory budget (see updateAll).
+const SERIES_MEMORY: { [series in MajorDataSeries]: number } = {
+  kanji: 10 * 1024 * 1024,
+  words: 100 * 1024 * 1024,
+  names: 250 * 1024 * 1024,
+};
+
+// The approximate memory, in bytes, used by each record held in memory when
+// applying patches in chunks (see the `updateChunkSize` option).
+const RECORD_MEMORY = 1024;
+
+// The default memory budget for updateAll. This allows either of the large
+// series (words and names) to be updated alongside the kanji but not both
+// large series at once.
+const DEFAULT_UPDATE_MEMORY_BUDGET = 300 * 1024 * 1024;
+
 type InProgressUpdate = {
   promise: Promise<void>;
   controller: AbortController;
   lang: string;
+  baseUrl: string;
+  // True if this is an import from a local file rather than an update from
+  // the network.
+  isImport: boolean;
+  // True once we hold the update lock for the series, i.e. once no other
+  // context is updating it.
+  hasLock?: boolean;
+  // Set while the update is paused
+  paused?: {
+    promise: Promise<void>;
+    resume: () => void;
+  };
 };
 
 export class JpdictDatabase {
   kanji: DataSeriesInfo = {
     state: DataSeriesState.Initializing,
     version: null,
+    degraded: false,
     updateState: { state: 'idle', lastCheck: null },
   };
   radicals: DataSeriesInfo = {
     state: DataSeriesState.Initializing,
     version: null,
+    degraded: false,
     updateState: { state: 'idle', lastCheck: null },
   };
   names: DataSeriesInfo = {
     state: DataSeriesState.Initializing,
     version: null,
+    degraded: false,
     updateState: { state: 'idle', lastCheck: null },
   };
   words: DataSeriesInfo = {
     state: DataSeriesState.Initializing,
     version: null,
+    degraded: false,
     updateState: { state: 'idle', lastCheck: null },
   };
 
   store: JpdictStore;
   verbose: boolean = false;
 
+  private baseUrl: string;
+  private fileNaming: FileNaming;
+  private compression: CompressionFormat | undefined;
+  private decompress: Decompressor | undefined;
+  private transport: TransportOptions;
+  private prefetch: PrefetchOptions | undefined;
+  private versionFileCache: VersionFileCacheOptions;
+  private invalidRecords: InvalidRecordPolicy;
+  private unknownTags: UnknownTagPolicy;
+  private updateChunkSize: number | undefined;
+  private maxLanguages: number;
+  private languageQuota: number;
+
   private readyPromise: Promise<any>;
   private inProgressUpdates: {
     [series in MajorDataSeries]: InProgressUpdate | undefined;
   } = { words: undefined, kanji: undefined, names: undefined };
   private changeListeners: ChangeCallback[] = [];
+  private updateChannel: BroadcastChannel | undefined;
+  // The series for which we are reflecting an update run by another context
+  // and are waiting for it to finish (see watchRemoteUpdate).
+  private remoteUpdates: Set<DataSeries> = new Set();
 
-  constructor({ verbose = false }: { verbose?: boolean } = {}) {
+  constructor({
+    verbose = false,
+    baseUrl = DEFAULT_BASE_URL,
+    fileNaming = {},
+    compression,
+    decompress,
+    transport = {},
+    prefetch,
+    versionFileCache = {},
+    invalidRecords = 'reject',
+    unknownTags = 'preserve',
+    updateChunkSize,
+    maxLanguages = 2,
+    languageQuota = Infinity,
+  }: JpdictDatabaseOptions = {}) {
     this.store = new JpdictStore();
     this.verbose = verbose;
+    this.baseUrl = baseUrl;
+    this.fileNaming = fileNaming;
+    this.compression = compression;
+    this.decompress = decompress;
+    this.transport = transport;
+    this.prefetch = prefetch;
+    this.versionFileCache = versionFileCache;
+    this.invalidRecords = invalidRecords;
+    this.unknownTags = unknownTags;
+    this.updateChunkSize = updateChunkSize;
+    this.maxLanguages = maxLanguages;
+    this.languageQuota = languageQuota;
+
+    // Reflect updates run by other contexts using the same database
+    this.updateChannel = openUpdateChannel((message) =>
+      this.onSeriesStateMessage(message)
+    );
 
     // Fetch initial state
     this.readyPromise = (async () => {
       try {
         for (const series of allDataSeries) {
+          // If another context is updating the series, leave it to that
+          // context to recover any interrupted update.
+          await tryWithUpdateLock(toMajorSeries(series), () =>
+            this.recoverInterruptedUpdate(series)
+          );
           const dataVersion = await this.store.getDataVersion(series);
           this.updateDataVersion(series, dataVersion);
         }
@@ -120,6 +396,58 @@ export class JpdictDatabase {
     return this.readyPromise;
   }
 
+  // Checks the journal (i.e. the checkpoints table) for an update to the given
+  // series that was interrupted and either completes it, rolls it back, or
+  // records it as pending so that it can be resumed by the next update.
+  private async recoverInterruptedUpdate(series: DataSeries) {
+    const checkpoint = await this.store.getCheckpoint(series);
+    this[series].pendingUpdate = undefined;
+    if (!checkpoint) {
+      return;
+    }
+
+    // If the update is for a version we can no longer use, or one we have
+    // already got, drop it along with any data written to the shadow table.
+    //
+    // Note that for patches being applied in chunks we can't undo the chunks
+    // that have already been applied but they will be overwritten by the next
+    // update.
+    const { version } = checkpoint;
+    const currentVersion = await this.store.getDataVersion(series);
+    if (
+      version.major !== MAJOR_VERSION[series] ||
+      (currentVersion &&
+        currentVersion.major === version.major &&
+        compareVersions(currentVersion, version) >= 0)
+    ) {
+      if (this.verbose) {
+        console.log(
+          `Rolling back interrupted update to ${series} version ${JSON.stringify(
+            version
+          )}`
+        );
+      }
+      await this.store.clearShadowTable(series);
+      return;
+    }
+
+    // If we wrote everything but didn't get to swap in the new data, just do
+    // that now.
+    if (checkpoint.phase === 'commit') {
+      if (this.verbose) {
+        console.log(
+          `Completing interrupted update to ${series} version ${JSON.stringify(
+            version
+          )}`
+        );
+      }
+      await this.store.swapShadowTable({ table: series, version });
+      return;
+    }
+
+    this[series].pendingUpdate = toPendingUpdate(checkpoint);
+  }
+
   addChangeListener(callback: ChangeCallback) {
     if (this.changeListeners.indexOf(callback) !== -1) {
       return;
@@ -153,20 +481,115 @@ export class JpdictDatabase {
 
     this[series].version = version;
     this[series].state = version ? DataSeriesState.Ok : DataSeriesState.Empty;
+    this[series].degraded = !!version?.quarantined;
 
     this.notifyChanged('stateupdated');
   }
 
+  // Shares the state of an update we are running with other contexts.
+  private broadcastSeriesState(series: DataSeries) {
+    const message: SeriesStateMessage = {
+      type: 'seriesstate',
+      series,
+      version: this[series].version,
+      updateState: this[series].updateState,
+    };
+    this.updateChannel?.postMessage(message);
+  }
+
+  private onSeriesStateMessage({
+    series,
+    version,
+    updateState,
+  }: SeriesStateMessage) {
+    // Ignore the message if we are the ones updating the series (e.g. if the
+    // Web Locks API is not available).
+    if (this.inProgressUpdates[toMajorSeries(series)]?.hasLock) {
+      return;
+    }
+
+    this[series].updateState = updateState;
+    this.updateDataVersion(series, version);
+    this.notifyChanged('stateupdated');
+
+    if (updateState.state !== 'idle') {
+      this.watchRemoteUpdate(series);
+    }
+  }
+
+  // If the context updating a series goes away (e.g. the tab is closed or
+  // crashes) before it broadcasts that the update has finished, we would
+  // otherwise reflect its update forever. Instead, we wait for it to release
+  // the update lock and then re-read the state of the series from the
+  // database.
+  private watchRemoteUpdate(series: DataSeries) {
+    if (this.remoteUpdates.has(series)) {
+      return;
+    }
+    this.remoteUpdates.add(series);
+
+    const majorSeries = toMajorSeries(series);
+    const onLockFree = async () => {
+      // Check the update hasn't finished (or been replaced by one of our own)
+      // in the meantime.
+      if (
+        this[series].updateState.state === 'idle' ||
+        this.inProgressUpdates[majorSeries]?.hasLock
+      ) {
+        return;
+      }
+
+      if (this.verbose) {
+        console.log(
+          `Another context stopped updating ${series} without finishing`
+        );
+      }
+
+      await this.recoverInterruptedUpdate(series);
+      this.updateDataVersion(series, await this.store.getDataVersion(series));
+      this[series].updateState = {
+        state: 'idle',
+        lastCheck: this[series].updateState.lastCheck,
+      };
+      this.notifyChanged('stateupdated');
+    };
+
+    const done = () => {
+      this.remoteUpdates.delete(series);
+    };
+    whenUpdateLockFree(majorSeries, onLockFree).then(done, (e) => {
+      console.error(`Failed to recover the state of ${series}`);
+      console.error(e);
+      done();
+    });
+  }
+
   async update({
     series,
     lang = 'en',
+    baseUrl = this.baseUrl,
+    fileNaming = this.fileNaming,
+    forceFetch = true,
   }: {
     series: MajorDataSeries;
     lang?: string;
+    // Overrides the base URL / file naming passed to the constructor for this
+    // update.
+    baseUrl?: string;
+    fileNaming?: FileNaming;
+    // If false, a cached version file that has not yet expired may be used
+    // (see the `versionFileCache` option) instead of checking for a new
+    // version. Useful for updates that are not triggered by the user.
+    forceFetch?: boolean;
   }) {
     // Check for an existing update
     const existingUpdate = this.inProgressUpdates[series];
-    if (existingUpdate && existingUpdate.lang === lang) {
+    if (
+      existingUpdate &&
+      !existingUpdate.isImport &&
+      existingUpdate.lang === lang &&
+      existingUpdate.baseUrl === baseUrl
+    ) {
       if (this.verbose) {
         console.log(
           `Detected overlapping update for ${series}. Re-using existing update.`
@@ -176,20 +599,332 @@ export class JpdictDatabase {
       return existingUpdate.promise;
     }
 
-    // Cancel the existing update since the language doesn't match
+    // Cancel the existing update since the language or source doesn't match
     if (existingUpdate) {
       if (this.verbose) {
         console.log(
-          `Cancelling existing update for ${series} since the requested language (${lang}) doesn't match that of the existing update(${existingUpdate.lang})`
+          `Cancelling existing update for ${series} since the requested language (${lang}) or source (${baseUrl}) doesn't match that of the existing update (${existingUpdate.lang}, ${existingUpdate.baseUrl})`
         );
       }
 
       this.cancelUpdate({ series });
     }
 
+    return this.runUpdate({
+      series,
+      lang,
+      baseUrl,
+      isImport: false,
+      run: async () => {
+        const options = { lang, baseUrl, fileNaming };
+        if (series === 'kanji') {
+          await this.doUpdateSeries({
+            series: 'kanji',
+            ...options,
+            forceFetch,
+          });
+          // The radicals are listed in the same version file as the kanji so
+          // there's no need to fetch it again.
+          await this.doUpdateSeries({ series: 'radicals', ...options });
+        } else {
+          await this.doUpdateSeries({ series, ...options, forceFetch });
+        }
+      },
+    });
+  }
+
+  // Returns, for each series, the languages (of those in `languages`) in which
+  // the data is offered along with the version and approximate size of the
+  // data for each language.
+  //
+  // This reads the version file for each language so it may involve a number
+  // of network requests (although the version files are cached for
+  // subsequent updates). If we fail to read the version file for a language
+  // (e.g. due to a network error), the error is reported in `errors` rather
+  // than rejecting.
+  async getAvailableLanguages({
+    languages = KNOWN_LANGUAGES,
+    baseUrl = this.baseUrl,
+    fileNaming = this.fileNaming,
+    signal,
+  }: {
+    languages?: ReadonlyArray<string>;
+    baseUrl?: string;
+    fileNaming?: FileNaming;
+    signal?: AbortSignal;
+  } = {}): Promise<AvailableLanguages> {
+    // Each version file covers all the series for a language so we look up
+    // the series for a language one after the other in order to fetch each
+    // file only once. Different languages, however, are looked up in
+    // parallel.
+    const languageResults = await Promise.all(
+      languages.map(async (lang) => {
+        const infos: Array<{ series: DataSeries; info: LanguageInfo }> = [];
+        try {
+          for (const series of allDataSeries) {
+            const info = await getLanguageInfo({
+              baseUrl,
+              fileNaming,
+              series,
+              majorVersion: MAJOR_VERSION[series],
+              lang,
+              signal,
+              transport: this.transport,
+              versionFileCache: this.versionFileCache,
+            });
+            if (info) {
+              infos.push({ series, info });
+            }
+          }
+          return { lang, infos };
+        } catch (error) {
+          return { lang, infos: [], error };
+        }
+      })
+    );
+
+    if (signal?.aborted) {
+      throw new AbortError();
+    }
+
+    const result: AvailableLanguages = {
+      words: [],
+      kanji: [],
+      radicals: [],
+      names: [],
+      errors: [],
+    };
+
+    // Report the languages we failed to check rather than failing altogether
+    for (const { lang, infos, error } of languageResults) {
+      if (error) {
+        result.errors.push({ lang, error });
+        continue;
+      }
+
+      for (const { series, info } of infos) {
+        result[series].push(info);
+      }
+    }
+
+    return result;
+  }
+
+  // Updates several series, running at most `concurrency` updates at once.
+  //
+  // Smaller series are updated first so that they become available sooner.
+  // Furthermore, updates are only run in parallel while their approximate
+  // combined memory usage fits within `memoryBudget` (in bytes). A series
+  // that does not fit within the budget by itself is updated on its own.
+  //
+  // Setting the `updateChunkSize` option greatly reduces the memory needed
+  // for each update since patches are then applied in bounded chunks.
+  //
+  // Unlike update(), this does not reject if updating a series fails but
+  // instead reports the error in the result for that series.
+  async updateAll({
+    series = allMajorDataSeries,
+    lang = 'en',
+    concurrency = 1,
+    memoryBudget = DEFAULT_UPDATE_MEMORY_BUDGET,
+    forceFetch = true,
+    onProgress,
+  }: {
+    series?: ReadonlyArray<MajorDataSeries>;
+    lang?: string;
+    concurrency?: number;
+    memoryBudget?: number;
+    // As for update(). Set this to false for updates that are not triggered
+    // by the user.
+    forceFetch?: boolean;
+    // Called with the overall progress, from 0 to 1, across all the series.
+    onProgress?: (progress: number) => void;
+  } = {}): Promise<Array<UpdateAllResult>> {
+    const requested = series.filter((s, i) => series.indexOf(s) === i);
+    const queue = [...requested].sort(
+      (a, b) => SERIES_SIZE[a] - SERIES_SIZE[b]
+    );
+    const running: Set<MajorDataSeries> = new Set();
+    const results: Map<MajorDataSeries, UpdateAllResult> = new Map();
+
+    let lastProgress = 0;
+    const reportProgress = () => {
+      if (!onProgress) {
+        return;
+      }
+
+      let total = 0;
+      let done = 0;
+      for (const s of requested) {
+        total += SERIES_SIZE[s];
+        done +=
+          SERIES_SIZE[s] *
+          (results.has(s) ? 1 : running.has(s) ? this.getSeriesProgress(s) : 0);
+      }
+
+      // Don't let the progress go backwards (e.g. when a series is retried)
+      const progress = Math.max(total ? done / total : 1, lastProgress);
+      if (progress !== lastProgress) {
+        lastProgress = progress;
+        onProgress(progress);
+      }
+    };
+
+    const getMemoryUsage = (s: MajorDataSeries) =>
+      typeof this.updateChunkSize === 'number'
+        ? Math.min(SERIES_MEMORY[s], this.updateChunkSize * RECORD_MEMORY)
+        : SERIES_MEMORY[s];
+    const canStart = (s: MajorDataSeries) =>
+      !running.size ||
+      [...running].reduce((total, r) => total + getMemoryUsage(r), 0) +
+        getMemoryUsage(s) <=
+        memoryBudget;
+
+    this.addChangeListener(reportProgress);
+
+    try {
+      await new Promise<void>((resolve) => {
+        const startNext = () => {
+          if (!queue.length && !running.size) {
+            resolve();
+            return;
+          }
+
+          for (const next of [...queue]) {
+            if (running.size >= Math.max(concurrency, 1)) {
+              break;
+            }
+
+            if (!canStart(next)) {
+              continue;
+            }
+
+            queue.splice(queue.indexOf(next), 1);
+            running.add(next);
+
+            const onDone = (error?: unknown) => {
+              running.delete(next);
+              const result: UpdateAllResult = {
+                series: next,
+                version: this[next].version,
+              };
+              if (typeof error !== 'undefined') {
+                result.error = error;
+              }
+              results.set(next, result);
+              reportProgress();
+              startNext();
+            };
+
+            this.update({ series: next, lang, forceFetch }).then(
+              () => onDone(),
+              onDone
+            );
+          }
+        };
+
+        startNext();
+      });
+    } finally {
+      this.removeChangeListener(reportProgress);
+    }
+
+    return requested.map((s) => results.get(s)!);
+  }
+
+  // Returns the approximate progress, from 0 to 1, of the in-progress update
+  // for the given series.
+  private getSeriesProgress(series: MajorDataSeries): number {
+    if (series !== 'kanji') {
+      return getUpdateProgress(this[series].updateState);
+    }
+
+    // The kanji series is updated before the radicals series but the radicals
+    // series is much smaller.
+    return this.radicals.updateState.state !== 'idle'
+      ? 0.9 + 0.1 * getUpdateProgress(this.radicals.updateState)
+      : 0.9 * getUpdateProgress(this.kanji.updateState);
+  }
+
+  // Populates the given series from a local copy of a database file (e.g. one
+  // bundled with an installer) instead of fetching it from the network.
+  //
+  // The file may be either a full snapshot or a patch that applies to the
+  // version currently stored.
+  //
+  // Note that kanji and radicals are stored in separate files so importing
+  // the kanji series does NOT import the corresponding radicals.
+  async importSeries({
+    series,
+    source,
+    lang = 'en',
+    baseUrl = this.baseUrl,
+    allowDowngrade = false,
+  }: {
+    series: DataSeries;
+    source: ReadableStream<Uint8Array> | Blob | ArrayBuffer;
+    // The language of the data in the file.
+    lang?: string;
+    // The base URL the file corresponds to. Subsequent updates from this
+    // base URL will apply patches on top of the imported data.
+    baseUrl?: string;
+    // If true, allow importing a file that is older than the version
+    // currently stored. Otherwise the import fails with a DatabaseTooOld
+    // error.
+    allowDowngrade?: boolean;
+  }) {
+    const majorSeries: MajorDataSeries =
+      series === 'radicals' ? 'kanji' : series;
+
+    // An import always takes precedence over any in-progress update.
+    if (this.inProgressUpdates[majorSeries]) {
+      if (this.verbose) {
+        console.log(
+          `Cancelling existing update for ${majorSeries} in order to import ${series} data`
+        );
+      }
+
+      this.cancelUpdate({ series: majorSeries });
+    }
+
+    const stream =
+      source instanceof ReadableStream ? source : new Response(source).body!;
+
+    return this.runUpdate({
+      series: majorSeries,
+      lang,
+      baseUrl,
+      isImport: true,
+      run: () =>
+        this.doUpdateSeries({
+          series,
+          lang,
+          baseUrl,
+          fileNaming: this.fileNaming,
+          importStream: stream,
+          allowDowngrade,
+        }),
+    });
+  }
+
+  private runUpdate({
+    series,
+    lang,
+    baseUrl,
+    isImport,
+    run,
+  }: {
+    series: MajorDataSeries;
+    lang: string;
+    baseUrl: string;
+    isImport: boolean;
+    run: () => Promise<void>;
+  }): Promise<void> {
     const controller = new AbortController();
-    this.inProgressUpdates[series] = {
+    const inProgressUpdate: InProgressUpdate = {
       lang,
+      baseUrl,
+      isImport,
       controller,
       promise: (async () => {
         try {
@@ -199,106 +934,173 @@ export class JpdictDatabase {
             throw new AbortError();
           }
 
-          switch (series) {
-            case 'words':
-              await this.doUpdate({
-                series: 'words',
-                lang,
-                forceFetch: true,
-                isEntryLine: isWordEntryLine,
-                isDeletionLine: isWordDeletionLine,
-                update: updateWords,
-              });
-              break;
+          await withUpdateLock({
+            series,
+            signal: controller.signal,
+            onWait: () => {
+              if (this.verbose) {
+                console.log(
+                  `Waiting for another context to finish updating ${series}`
+                );
+              }
+            },
+            callback: async () => {
+              inProgressUpdate.hasLock = true;
 
-            case 'kanji':
-              await this.doUpdate({
-                series: 'kanji',
-                lang,
-                forceFetch: true,
-                isEntryLine: isKanjiEntryLine,
-                isDeletionLine: isKanjiDeletionLine,
-                update: updateKanji,
-              });
-
-              await this.doUpdate({
-                series: 'radicals',
-                lang,
-                forceFetch: true,
-                isEntryLine: isRadicalEntryLine,
-                isDeletionLine: isRadicalDeletionLine,
-                update: updateRadicals,
-              });
-              break;
+              // Another context may have updated the data while we were
+              // waiting.
+              for (const s of getDataSeries(series)) {
+                await this.store.clearRetiredTable(s);
+                await this.recoverInterruptedUpdate(s);
+                this.updateDataVersion(s, await this.store.getDataVersion(s));
+              }
 
-            case 'names':
-              await this.doUpdate({
-                series: 'names',
-                lang,
-                forceFetch: true,
-                isEntryLine: isNameEntryLine,
-                isDeletionLine: isNameDeletionLine,
-                update: updateNames,
-              });
-              break;
-          }
+              await run();
+            },
+          });
 
           if (controller.signal.aborted) {
             throw new AbortError();
           }
         } finally {
-          // Reset the in progress update but only if the language wasn't
-          // changed (since we don't want to clobber the new request).
-          if (
-            this.inProgressUpdates[series] &&
-            this.inProgressUpdates[series]!.lang === lang
-          ) {
+          // Reset the in progress update but only if it wasn't replaced by
+          // another request (since we don't want to clobber the new request).
+          if (this.inProgressUpdates[series]?.controller === controller) {
             this.inProgressUpdates[series] = undefined;
           }
           this.notifyChanged('stateupdated');
         }
       })(),
     };
+    this.inProgressUpdates[series] = inProgressUpdate;
 
-    return this.inProgressUpdates[series]!.promise;
+    return inProgressUpdate.promise;
+  }
+
+  private async doUpdateSeries({
+    series,
+    ...options
+  }: {
+    series: DataSeries;
+    lang: string;
+    baseUrl: string;
+    fileNaming: FileNaming;
+    forceFetch?: boolean;
+    importStream?: ReadableStream<Uint8Array>;
+    allowDowngrade?: boolean;
+  }) {
+    const { unknownTags } = this;
+
+    switch (series) {
+      case 'words':
+        return this.doUpdate({
+          series,
+          ...options,
+          isEntryLine: (a): a is WordEntryLine =>
+            isWordEntryLine(a, { unknownTags }),
+          isDeletionLine: isWordDeletionLine,
+          validateEntryLine: (a) => validateWordEntryLine(a, { unknownTags }),
+          update: (options) => updateWords({ ...options, unknownTags }),
+        });
+
+      case 'kanji':
+        return this.doUpdate({
+          series,
+          ...options,
+          isEntryLine: isKanjiEntryLine,
+          isDeletionLine: isKanjiDeletionLine,
+          validateEntryLine: validateKanjiEntryLine,
+          update: updateKanji,
+        });
+
+      case 'radicals':
+        return this.doUpdate({
+          series,
+          ...options,
+          isEntryLine: isRadicalEntryLine,
+          isDeletionLine: isRadicalDeletionLine,
+          validateEntryLine: validateRadicalEntryLine,
+          update: updateRadicals,
+        });
+
+      case 'names':
+        return this.doUpdate({
+          series,
+          ...options,
+          isEntryLine: isNameEntryLine,
+          isDeletionLine: isNameDeletionLine,
+          validateEntryLine: validateNameEntryLine,
+          update: updateNames,
+        });
+    }
   }
 
   private async doUpdate<EntryLine, DeletionLine>({
     series,
     lang: requestedLang,
+    baseUrl,
+    fileNaming,
     forceFetch = false,
+    importStream,
+    allowDowngrade,
     isEntryLine,
     isDeletionLine,
+    validateEntryLine,
     update,
   }: {
     series: DataSeries;
     lang: string;
+    baseUrl: string;
+    fileNaming: FileNaming;
+    // If true, check for a new version file even if we have a cached one that
+    // has not expired yet.
     forceFetch?: boolean;
+    importStream?: ReadableStream<Uint8Array>;
+    // If true, allow an imported file to replace newer data.
+    allowDowngrade?: boolean;
     isEntryLine: (a: any) => a is EntryLine;
     isDeletionLine: (a: any) => a is DeletionLine;
+    validateEntryLine: (a: any) => Array<ValidationFailure>;
     update: (options: UpdateOptions<EntryLine, DeletionLine>) => Promise<void>;
   }) {
     // Fetch the AbortSignal so we can check if we have been aborted even after
     // our InProgressUpdate is removed.
     const majorSeries: MajorDataSeries =
       series === 'radicals' ? 'kanji' : series;
-    if (!this.inProgressUpdates[majorSeries]) {
+    const inProgressUpdate = this.inProgressUpdates[majorSeries];
+    if (!inProgressUpdate) {
       throw new AbortError();
     }
-    const signal = this.inProgressUpdates[majorSeries]!.controller.signal;
+    const signal = inProgressUpdate.controller.signal;
 
     let wroteSomething = false;
 
     const reducer = (action: UpdateAction) => {
+      // Quarantined records don't affect the update state so we simply record
+      // them and leave it to the next action (e.g. the next progress action)
+      // to notify listeners. That way a file full of unrecognized records
+      // doesn't produce a notification for each one.
+      if (action.type === 'quarantine') {
+        const quarantine = this[series].quarantine || [];
+        if (quarantine.length < MAX_QUARANTINED_RECORDS) {
+          quarantine.push(action.record);
+        }
+        this[series].quarantine = quarantine;
+        this[series].quarantineCount = (this[series].quarantineCount || 0) + 1;
+        return;
+      }
+
       this[series].updateState = updateReducer(
         this[series].updateState,
         action
       );
       if (action.type === 'finishpatch') {
         wroteSomething = true;
+        this[series].pendingUpdate = undefined;
         this.updateDataVersion(series, action.version);
       }
       this.notifyChanged('stateupdated');
+      this.broadcastSeriesState(series);
     };
 
     // Check if we have been canceled while waiting to become ready
@@ -310,67 +1112,177 @@ export class JpdictDatabase {
     const checkDate = new Date();
 
     try {
+      this[series].quarantine = undefined;
+      this[series].quarantineCount = undefined;
       reducer({ type: 'start', series });
+      if (inProgressUpdate.paused) {
+        reducer({ type: 'pause' });
+      }
 
       // Check if the requested language is available for this series, and
       // fallback to English if not.
+      //
+      // (When importing we simply trust the language we were given.)
       const lang =
-        requestedLang !== 'en' &&
-        (await hasLanguage({
-          series,
-          lang: requestedLang,
-          majorVersion: MAJOR_VERSION[series],
-          signal,
-        }))
+        importStream ||
+        (requestedLang !== 'en' &&
+          (await hasLanguage({
+            baseUrl,
+            fileNaming,
+            series,
+            lang: requestedLang,
+            majorVersion: MAJOR_VERSION[series],
+            signal,
+            transport: this.transport,
+            versionFileCache: this.versionFileCache,
+            forceFetch,
+          })))
           ? requestedLang
           : 'en';
+      this[series].languageFallback =
+        lang !== requestedLang ? { requestedLang, lang } : undefined;
 
-      // If the language we have stored (if any) differs from the language we
-      // are about to update to, clobber the existing data for this series.
-      const currentLang: string | undefined =
-        this[series].state === DataSeriesState.Ok
-          ? this[series].version!.lang
-          : undefined;
-      if (currentLang && currentLang !== lang) {
+      // We only record the source when it is not the default one.
+      //
+      // Since the same base URL might host the files under different names
+      // (e.g. for different builds of the data), we also record the file
+      // naming scheme, if it is not the default one.
+      const fileNamingId = getFileNamingId(fileNaming);
+      const source = fileNamingId
+        ? `${baseUrl}#${fileNamingId}`
+        : baseUrl !== DEFAULT_BASE_URL
+        ? baseUrl
+        : undefined;
+
+      // If the source we have stored (if any) differs from the one we are
+      // about to update from, clobber the existing data for this series.
+      //
+      // We can't safely apply patches from one source to data from another
+      // since there's no guarantee they are in sync.
+      const currentVersion: DataVersion | null =
+        this[series].state === DataSeriesState.Ok ? this[series].version : null;
+      if (currentVersion && currentVersion.source !== source) {
         if (this.verbose) {
-          console.log(`Clobbering ${series} data to change lang to ${lang}`);
+          console.log(
+            `Clobbering ${series} data to change source to ${baseUrl}`
+          );
         }
         await this.store.clearTable(series);
+        this[series].pendingUpdate = undefined;
         this.updateDataVersion(series, null);
       }
 
+      // If the language differs, on the other hand, switch to the data we
+      // have for the requested language (if any), keeping the data for the
+      // current language in case we switch back to it.
+      if (
+        this[series].state === DataSeriesState.Ok
+          ? this[series].version!.lang !== lang
+          : await this.store.hasLanguageData(series, lang)
+      ) {
+        if (this.verbose) {
+          console.log(`Switching ${series} data to ${lang}`);
+        }
+        const version = await this.store.switchLanguage({
+          series,
+          lang,
+          source,
+          maxLanguages: this.maxLanguages,
+          quota: this.languageQuota,
+        });
+        this[series].pendingUpdate = undefined;
+        this.updateDataVersion(series, version);
+      }
+
+      // If the data we have stored is for a different major version (e.g.
+      // because this version of the library expects a different data format),
+      // we need to download the new major version in full.
+      //
+      // Since full updates are written to a separate table and only swapped in
+      // once they are complete, we continue to serve the existing data until
+      // then.
+      const storedVersion = this[series].version || undefined;
+      const isMigration =
+        !!storedVersion && storedVersion.major !== MAJOR_VERSION[series];
+      if (isMigration) {
+        if (this.verbose) {
+          console.log(
+            `Migrating ${series} data from version ${JSON.stringify(
+              storedVersion
+            )} to major version ${MAJOR_VERSION[series]}`
+          );
+        }
+        reducer({
+          type: 'startmigration',
+          series,
+          fromVersion: storedVersion!,
+          majorVersion: MAJOR_VERSION[series],
+        });
+      }
+      const fromVersion = isMigration ? undefined : storedVersion;
+
       if (signal.aborted) {
         throw new AbortError();
       }
 
       if (this.verbose) {
         console.log(
-          `Requesting download for ${series} series with current version ${JSON.stringify(
-            this[series].version || undefined
+          `Requesting ${
+            importStream ? 'import' : 'download'
+          } for ${series} series with current version ${JSON.stringify(
+            fromVersion
           )}`
         );
       }
 
-      const downloadIterator = download({
-        series,
-        lang,
-        majorVersion: MAJOR_VERSION[series],
-        currentVersion: this[series].version || undefined,
-        signal,
-        forceFetch,
-        isEntryLine,
-        isDeletionLine,
-      });
+      const downloadIterator = importStream
+        ? readDatabaseFile({
+            stream: importStream,
+            majorVersion: MAJOR_VERSION[series],
+            currentVersion: fromVersion,
+            allowDowngrade,
+            signal,
+            invalidRecords: this.invalidRecords,
+            isEntryLine,
+            isDeletionLine,
+            validateEntryLine,
+          })
+        : download({
+            baseUrl,
+            fileNaming,
+            series,
+            lang,
+            majorVersion: MAJOR_VERSION[series],
+            currentVersion: fromVersion,
+            signal,
+            compression: this.compression,
+            decompress: this.decompress,
+            transport: this.transport,
+            prefetch: this.prefetch,
+            versionFileCache: this.versionFileCache,
+            // If we found the requested language above, we have already
+            // fetched the version file for it.
+            forceFetch: forceFetch && lang === 'en',
+            invalidRecords: this.invalidRecords,
+            isEntryLine,
+            isDeletionLine,
+            validateEntryLine,
+          });
 
       if (signal.aborted) {
         throw new AbortError();
       }
 
       await update({
-        downloadIterator,
+        downloadIterator: pausable(
+          downloadIterator,
+          () => inProgressUpdate.paused?.promise
+        ),
         lang,
+        source,
         store: this.store,
         callback: reducer,
+        chunkSize: this.updateChunkSize,
         verbose: this.verbose,
       });
 
@@ -380,6 +1292,17 @@ export class JpdictDatabase {
 
       reducer({ type: 'finish', checkDate });
     } catch (e) {
+      // Record any partial progress so that callers know the update will be
+      // resumed.
+      try {
+        const checkpoint = await this.store.getCheckpoint(series);
+        this[series].pendingUpdate = checkpoint
+          ? toPendingUpdate(checkpoint)
+          : undefined;
+      } catch (_e) {
+        // Ignore, the database may be unavailable
+      }
+
       // We should only update the last-check date if we actually made some
       // sort of update.
       reducer({
@@ -390,17 +1313,111 @@ export class JpdictDatabase {
     }
   }
 
+  // Returns a stream of the data stored for the given series in the same
+  // format as the files we download (and hence in a format suitable for
+  // passing to importSeries).
+  async exportSeries(series: DataSeries): Promise<ReadableStream<Uint8Array>> {
+    await this.ready;
+
+    if (this[series].state !== DataSeriesState.Ok) {
+      throw new Error(`No ${series} data to export`);
+    }
+
+    // Hold off any updates to the series (including those from other
+    // contexts) until the stream has been read so that the records we export
+    // match the version in the header.
+    //
+    // As a result, callers should be sure to either read the stream to the end
+    // or cancel it.
+    const release = await holdUpdateLock(toMajorSeries(series));
+
+    try {
+      // Re-read the version in case it changed while we were waiting for the
+      // lock.
+      const version = await this.store.getDataVersion(series);
+      if (!version) {
+        throw new Error(`No ${series} data to export`);
+      }
+
+      return exportSeries({
+        store: this.store,
+        series,
+        version,
+        onClose: release,
+      });
+    } catch (e) {
+      release();
+      throw e;
+    }
+  }
+
   cancelUpdate({ series }: { series: MajorDataSeries }): boolean {
     const inProgressUpdate = this.inProgressUpdates[series];
     if (!inProgressUpdate) {
       return false;
     }
 
+    // If the update is paused, let it run so that it can notice it has been
+    // aborted.
+    inProgressUpdate.paused?.resume();
     inProgressUpdate.controller.abort();
 
     return true;
   }
 
+  // Suspends the in-progress update for the given series (e.g. so that the
+  // user can continue it later when they are no longer on a metered
+  // connection).
+  //
+  // The update stops reading the data being downloaded but the download is
+  // not canceled so, when resumed, it continues from where it stopped. If the
+  // update is never resumed (e.g. because the page is closed), the next
+  // update will resume from the last chunk written to the database (see
+  // `DataSeriesInfo.pendingUpdate`).
+  pauseUpdate({ series }: { series: MajorDataSeries }): boolean {
+    const inProgressUpdate = this.inProgressUpdates[series];
+    if (!inProgressUpdate || inProgressUpdate.paused) {
+      return false;
+    }
+
+    let resume: () => void;
+    const promise = new Promise<void>((resolve) => {
+      resume = resolve;
+    });
+    inProgressUpdate.paused = { promise, resume: resume! };
+
+    this.dispatchToSeries(series, { type: 'pause' });
+
+    return true;
+  }
+
+  resumeUpdate({ series }: { series: MajorDataSeries }): boolean {
+    const inProgressUpdate = this.inProgressUpdates[series];
+    if (!inProgressUpdate?.paused) {
+      return false;
+    }
+
+    inProgressUpdate.paused.resume();
+    inProgressUpdate.paused = undefined;
+
+    this.dispatchToSeries(series, { type: 'resume' });
+
+    return true;
+  }
+
+  // Applies the given action to the update state of all the data series
+  // that make up the given major series.
+  private dispatchToSeries(series: MajorDataSeries, action: UpdateAction) {
+    const dataSeries = getDataSeries(series);
+    for (const s of dataSeries) {
+      this[s].updateState = updateReducer(this[s].updateState, action);
+    }
+    this.notifyChanged('stateupdated');
+    for (const s of dataSeries) {
+      this.broadcastSeriesState(s);
+    }
+  }
+
   async destroy() {
     try {
       await this.ready;
@@ -415,6 +1432,13 @@ export class JpdictDatabase {
       await this.store.destroy();
     }
 
+    // Drop any cached version files too so that we start completely afresh
+    try {
+      await (this.versionFileCache.cache || defaultVersionFileCache).clear();
+    } catch (_e) {
+      // Ignore
+    }
+
     const hasInProgressUpdate = Object.keys(this.inProgressUpdates).some(
       (key) =>
         typeof this.inProgressUpdates[key as MajorDataSeries] !== 'undefined'
@@ -423,11 +1447,16 @@ export class JpdictDatabase {
       console.log('Destroying database while there is an in-progress update');
     }
 
+    // Stop reflecting updates from other contexts
+    this.updateChannel?.close();
+    this.updateChannel = undefined;
+
     this.store = new JpdictStore();
     for (const series of allDataSeries) {
       this[series] = {
         state: DataSeriesState.Empty,
         version: null,
+        degraded: false,
         updateState: { state: 'idle', lastCheck: null },
       };
     }
@@ -440,11 +1469,70 @@ export class JpdictDatabase {
     }
 
     await this.store.clearTable(series);
+    this[series].pendingUpdate = undefined;
+    this[series].languageFallback = undefined;
     this.updateDataVersion(series, null);
 
     if (series === 'kanji') {
       await this.store.clearTable('radicals');
+      this.radicals.pendingUpdate = undefined;
+      this.radicals.languageFallback = undefined;
       this.updateDataVersion('radicals', null);
     }
+
+    for (const s of getDataSeries(series)) {
+      this.broadcastSeriesState(s);
+    }
+  }
+}
+
+function toMajorSeries(series: DataSeries): MajorDataSeries {
+  return series === 'radicals' ? 'kanji' : series;
+}
+
+function getDataSeries(series: MajorDataSeries): Array<DataSeries> {
+  return series === 'kanji' ? ['kanji', 'radicals'] : [series];
+}
+
+function toPendingUpdate({
+  version,
+  phase,
+  recordsCommitted,
+}: UpdateCheckpoint): PendingUpdate {
+  return { version, phase, recordsCommitted };
+}
+
+function getUpdateProgress(updateState: UpdateState): number {
+  switch (updateState.state) {
+    case 'idle':
+    case 'checking':
+      return 0;
+
+    case 'downloading':
+    case 'updatingdb':
+      return updateState.totalProgress ?? updateState.progress;
+
+    case 'migrating':
+      return getUpdateProgress(updateState.migrationState);
+
+    case 'paused':
+      return getUpdateProgress(updateState.resumeState);
+  }
+}
+
+// Wraps the given iterator such that no further events are read while the
+// update is paused.
+//
+// Since we stop reading events, we also stop reading the response body so the
+// download stalls (once any prefetch buffer is full) rather than continuing to
+// use data.
+async function* pausable<T>(
+  iterator: AsyncIterableIterator<T>,
+  getPausePromise: () => Promise<void> | undefined
+): AsyncIterableIterator<T> {
+  await getPausePromise();
+  for await (const event of iterator) {
+    yield event;
+    await getPausePromise();
   }
 }
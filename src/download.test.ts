@@ -4,6 +4,7 @@ import fetchMock from 'fetch-mock';
 
 import { AbortError } from './abort-error';
 import {
+  CompressionFormat,
   download,
   DownloadEvent,
   DownloadError,
@@ -11,12 +12,15 @@ import {
   DownloadOptions,
   EntryEvent,
   ProgressEvent,
+  QuarantineEvent,
 } from './download';
+import { CachedVersionFile, VersionFileCache } from './version-file-cache';
 import {
   KanjiEntryLine,
   KanjiDeletionLine,
   isKanjiEntryLine,
   isKanjiDeletionLine,
+  validateKanjiEntryLine,
 } from './kanji';
 
 mocha.setup('bdd');
@@ -54,10 +58,12 @@ const kanjiDownload = (options: KanjiDownloadOptions = {}) => {
     forceFetch: true,
     majorVersion: 1,
     signal: abortController.signal,
+    resumeDelay: 0,
     ...options,
     series: 'kanji',
     isEntryLine: isKanjiEntryLine,
     isDeletionLine: isKanjiDeletionLine,
+    validateEntryLine: validateKanjiEntryLine,
   });
 };
 
@@ -87,6 +93,51 @@ describe('download', () => {
     ]);
   });
 
+  it('should re-use a cached version file', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_1_0_0);
+    mockAllDataFilesWithEmpty();
+
+    const cache = new MemoryVersionFileCache();
+    await drainEvents(
+      kanjiDownload({ forceFetch: false, versionFileCache: { cache } })
+    );
+    await drainEvents(
+      kanjiDownload({ forceFetch: false, versionFileCache: { cache } })
+    );
+
+    assert.strictEqual(
+      fetchMock.calls('end:jpdict-rc-en-version.json').length,
+      1,
+      'Should only fetch the version file once'
+    );
+  });
+
+  it('should revalidate a cached version file once it expires', async () => {
+    const requestHeaders: Array<string | null> = [];
+    fetchMock.mock('end:jpdict-rc-en-version.json', (_url, opts) => {
+      const etag = new Headers(opts.headers).get('If-None-Match');
+      requestHeaders.push(etag);
+      return etag === '"v1"'
+        ? 304
+        : { body: VERSION_1_0_0, headers: { ETag: '"v1"' } };
+    });
+    mockAllDataFilesWithEmpty();
+
+    const cache = new MemoryVersionFileCache();
+    await drainEvents(
+      kanjiDownload({ forceFetch: false, versionFileCache: { cache, ttl: 0 } })
+    );
+    const events = await drainEvents(
+      kanjiDownload({ forceFetch: false, versionFileCache: { cache, ttl: 0 } })
+    );
+
+    assert.deepEqual(requestHeaders, [null, '"v1"']);
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ['version', 'versionend']
+    );
+  });
+
   it('should fail if there is no version file available', async () => {
     fetchMock.mock('end:jpdict-rc-en-version.json', 404);
 
@@ -106,6 +157,26 @@ describe('download', () => {
     }
   });
 
+  it('should report the status and headers when a file is not available', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', {
+      status: 503,
+      headers: { 'Retry-After': '120' },
+    });
+
+    const downloader = kanjiDownload();
+    try {
+      await drainEvents(downloader);
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      const [downloadError] = parseDrainError(e);
+      assert.strictEqual(downloadError.diagnostics?.status, 503);
+      assert.strictEqual(
+        downloadError.diagnostics?.headers?.['retry-after'],
+        '120'
+      );
+    }
+  });
+
   function parseDrainError(
     err: Error
   ): [DownloadError, Array<KanjiDownloadEvent>] {
@@ -252,6 +323,16 @@ describe('download', () => {
         downloadError.code,
         DownloadErrorCode.DatabaseFileVersionMismatch
       );
+      assert.deepEqual(downloadError.diagnostics?.expectedVersion, {
+        major: 1,
+        minor: 0,
+        patch: 0,
+      });
+      assert.deepEqual(downloadError.diagnostics?.actualVersion, {
+        major: 1,
+        minor: 1,
+        patch: 0,
+      });
       assert.strictEqual(events.length, 0);
     }
   });
@@ -447,6 +528,93 @@ ${entry}
     }
   });
 
+  it('should report where an invalid entry appears', async () => {
+    const header =
+      '{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":2}';
+    const entry =
+      '{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}';
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_1_0_0);
+    fetchMock.mock(
+      'end:kanji-rc-en-1.0.0.ljson',
+      `${header}
+${entry}
+{"c":"㐂","r":{},"m":[]}
+`
+    );
+
+    const downloader = kanjiDownload();
+    try {
+      await drainEvents(downloader);
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      const [downloadError] = parseDrainError(e);
+      assert.strictEqual(
+        downloadError.code,
+        DownloadErrorCode.DatabaseFileInvalidRecord
+      );
+      assert.strictEqual(downloadError.diagnostics?.lineNumber, 3);
+      assert.strictEqual(
+        downloadError.diagnostics?.byteOffset,
+        new TextEncoder().encode(`${header}\n${entry}\n`).length
+      );
+      assert.strictEqual(downloadError.diagnostics?.attempt, 1);
+    }
+  });
+
+  it('should skip invalid entries when requested', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_1_0_0);
+    fetchMock.mock(
+      'end:kanji-rc-en-1.0.0.ljson',
+      `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":2}
+{"c":"㐂","m":[]}
+{"c":"㐆","r":{},"m":[],"rad":{"x":4},"refs":{},"misc":{"sc":6}}
+`
+    );
+
+    const downloader = kanjiDownload({ invalidRecords: 'quarantine' });
+    const events = await drainEvents(downloader);
+
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ['version', 'quarantine', 'entry', 'versionend']
+    );
+    assert.deepEqual((events[1] as QuarantineEvent).record, {
+      lineNumber: 2,
+      line: '{"c":"㐂","m":[]}',
+      field: 'r',
+    });
+  });
+
+  it('should report why an entry is invalid', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_1_0_0);
+    fetchMock.mock(
+      'end:kanji-rc-en-1.0.0.ljson',
+      `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":1}
+{"c":"㐂","r":{"on":["キ",1]},"m":[],"rad":{"x":"1"},"refs":{},"misc":{"sc":6}}
+`
+    );
+
+    const downloader = kanjiDownload();
+    try {
+      await drainEvents(downloader);
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      const [downloadError] = parseDrainError(e);
+      assert.strictEqual(
+        downloadError.code,
+        DownloadErrorCode.DatabaseFileInvalidRecord
+      );
+      assert.deepEqual(downloadError.diagnostics?.validationFailures, [
+        { path: 'r.on[1]', message: 'expected a string but got 1' },
+        { path: 'rad.x', message: "expected a number but got '1'" },
+      ]);
+      assert.include(
+        downloadError.message,
+        "r.on[1]: expected a string but got 1; rad.x: expected a number but got '1'"
+      );
+    }
+  });
+
   it('should still return entries prior to invalid ones', async () => {
     fetchMock.mock('end:jpdict-rc-en-version.json', {
       kanji: {
@@ -542,156 +710,452 @@ ${entry}
     );
   });
 
-  it('reports deletion events', async () => {
+  it('should report the files to be downloaded up front', async () => {
     fetchMock.mock('end:jpdict-rc-en-version.json', {
       kanji: {
         '1': {
           ...VERSION_1_0_0.kanji['1'],
-          patch: 2,
+          patch: 3,
+          sizes: { '0': 1000, '1': 20, '2': 30, '3': 40 },
         },
       },
     });
-    fetchMock.mock(
-      'end:kanji-rc-en-1.0.2.ljson',
-      `{"type":"header","version":{"major":1,"minor":0,"patch":2,"databaseVersion":"2019-175","dateOfCreation":"2019-06-24"},"records":1}
-{"c":"鍋","deleted":true}`
-    );
+    mockAllDataFilesWithEmpty();
 
     const events = await drainEvents(
       kanjiDownload({
         currentVersion: { major: 1, minor: 0, patch: 1 },
-      })
+      }),
+      { includePlanEvents: true }
     );
 
-    assert.deepEqual(events[1], {
-      type: 'deletion',
-      c: '鍋',
-      deleted: true,
+    assert.deepEqual(events[0], {
+      type: 'plan',
+      files: [
+        { major: 1, minor: 0, patch: 2, size: 30 },
+        { major: 1, minor: 0, patch: 3, size: 40 },
+      ],
     });
   });
 
-  it('should fail if one of the patches is missing', async () => {
+  it('should download a snapshot when it is smaller than the patches', async () => {
     fetchMock.mock('end:jpdict-rc-en-version.json', {
-      kanji: { '1': { ...VERSION_1_0_0.kanji['1'], patch: 1 } },
+      kanji: {
+        '1': {
+          ...VERSION_1_0_0.kanji['1'],
+          patch: 3,
+          sizes: { '0': 1000, '1': 500, '2': 600, '3': 700 },
+          snapshot: { size: 1200 },
+        },
+      },
     });
     fetchMock.mock(
-      'end:kanji-rc-en-1.0.0.ljson',
-      `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":1}
-{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}`
+      'end:kanji-rc-en-1.0.3-snapshot.ljson',
+      `{"type":"header","version":{"major":1,"minor":0,"patch":3,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":0}
+`
     );
-    fetchMock.mock('end:kanji-rc-en-1.0.1.ljson', 404);
 
-    const downloader = kanjiDownload();
-    try {
-      await drainEvents(downloader);
-      assert.fail('Should have thrown an exception');
-    } catch (e) {
-      const [downloadError, events] = parseDrainError(e);
-      assert.strictEqual(
-        downloadError.code,
-        DownloadErrorCode.DatabaseFileNotFound
-      );
-      assert.strictEqual(events.length, 3);
-    }
+    const events = await drainEvents(
+      kanjiDownload({
+        currentVersion: { major: 1, minor: 0, patch: 0 },
+      }),
+      { includePlanEvents: true }
+    );
+
+    assert.deepEqual(events, [
+      {
+        type: 'plan',
+        files: [{ major: 1, minor: 0, patch: 3, snapshot: true, size: 1200 }],
+      },
+      {
+        type: 'version',
+        major: 1,
+        minor: 0,
+        patch: 3,
+        databaseVersion: '2019-173',
+        dateOfCreation: '2019-06-22',
+        snapshot: true,
+      },
+      { type: 'versionend' },
+    ]);
   });
 
-  it('should fail if one of the patches is corrupt', async () => {
+  it('should download a snapshot when there are too many patches', async () => {
     fetchMock.mock('end:jpdict-rc-en-version.json', {
-      kanji: { '1': { ...VERSION_1_0_0.kanji['1'], patch: 1 } },
+      kanji: {
+        '1': {
+          ...VERSION_1_0_0.kanji['1'],
+          patch: 3,
+          snapshot: {},
+        },
+      },
     });
     fetchMock.mock(
-      'end:kanji-rc-en-1.0.0.ljson',
-      `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":1}
-{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}`
+      'end:kanji-rc-en-1.0.3-snapshot.ljson',
+      `{"type":"header","version":{"major":1,"minor":0,"patch":3,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":0}
+`
     );
-    fetchMock.mock('end:kanji-rc-en-1.0.1.ljson', 'yer');
+    mockAllDataFilesWithEmpty();
 
-    const downloader = kanjiDownload();
-    try {
-      await drainEvents(downloader);
-      assert.fail('Should have thrown an exception');
-    } catch (e) {
-      const [downloadError, events] = parseDrainError(e);
-      assert.strictEqual(
-        downloadError.code,
-        DownloadErrorCode.DatabaseFileInvalidJSON
-      );
-      assert.strictEqual(events.length, 3);
-    }
+    await drainEvents(
+      kanjiDownload({
+        currentVersion: { major: 1, minor: 0, patch: 0 },
+        maxPatches: 2,
+      })
+    );
+
+    assert.isTrue(fetchMock.called('end:kanji-rc-en-1.0.3-snapshot.ljson'));
+    assert.isFalse(fetchMock.called('end:kanji-rc-en-1.0.1.ljson'));
   });
 
-  it('should fail if one of the patches has a mismatched header', async () => {
+  it('should prefetch subsequent patches', async () => {
     fetchMock.mock('end:jpdict-rc-en-version.json', {
-      kanji: { '1': { ...VERSION_1_0_0.kanji['1'], patch: 1 } },
+      kanji: {
+        '1': {
+          ...VERSION_1_0_0.kanji['1'],
+          patch: 3,
+        },
+      },
+    });
+    mockAllDataFilesWithEmpty();
+
+    const downloader = kanjiDownload({ prefetch: { concurrency: 2 } });
+
+    // Read plan and version events
+    await downloader.next();
+    await downloader.next();
+
+    assert.isTrue(fetchMock.called('end:kanji-rc-en-1.0.1.ljson'));
+    assert.isTrue(fetchMock.called('end:kanji-rc-en-1.0.2.ljson'));
+    assert.isFalse(fetchMock.called('end:kanji-rc-en-1.0.3.ljson'));
+
+    const events = await drainEvents(downloader);
+    assert.deepEqual(
+      events.map((event) => event.type),
+      [
+        'versionend',
+        'version',
+        'versionend',
+        'version',
+        'versionend',
+        'version',
+        'versionend',
+      ]
+    );
+  });
+
+  it('should limit how much is buffered when prefetching', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', {
+      kanji: {
+        '1': {
+          ...VERSION_1_0_0.kanji['1'],
+          patch: 1,
+        },
+      },
     });
     fetchMock.mock(
       'end:kanji-rc-en-1.0.0.ljson',
-      `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":1}
-{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}`
+      `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":0}
+`
     );
+
+    const lines = [
+      `{"type":"header","version":{"major":1,"minor":0,"patch":1,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":10}
+`,
+      ...new Array(10).fill(
+        `{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+`
+      ),
+    ];
+    let linesRead = 0;
     fetchMock.mock(
       'end:kanji-rc-en-1.0.1.ljson',
-      `{"type":"header","version":{"major":1,"minor":1,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":1}
-{"c":"㐂","r":{},"m":[],"rad":{"x":2},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}`
+      () =>
+        new Response(
+          new ReadableStream({
+            pull(controller) {
+              if (linesRead < lines.length) {
+                controller.enqueue(
+                  new TextEncoder().encode(lines[linesRead++])
+                );
+              } else {
+                controller.close();
+              }
+            },
+          })
+        )
     );
 
-    const downloader = kanjiDownload();
-    try {
-      await drainEvents(downloader);
-      assert.fail('Should have thrown an exception');
-    } catch (e) {
-      const [downloadError, events] = parseDrainError(e);
-      assert.strictEqual(
-        downloadError.code,
-        DownloadErrorCode.DatabaseFileVersionMismatch
-      );
-      assert.strictEqual(events.length, 3);
-    }
-  });
-
-  it('should fail when the latest version is less than the current version', async () => {
-    fetchMock.mock('end:jpdict-rc-en-version.json', {
-      kanji: { '1': { ...VERSION_1_0_0.kanji['1'], patch: 1 } },
-    });
-
     const downloader = kanjiDownload({
-      currentVersion: { major: 1, minor: 0, patch: 2 },
+      prefetch: { concurrency: 1, maxBytes: 10 },
     });
-    try {
-      await drainEvents(downloader);
-      assert.fail('Should have thrown an exception');
-    } catch (e) {
-      const [downloadError] = parseDrainError(e);
-      assert.strictEqual(downloadError.code, DownloadErrorCode.DatabaseTooOld);
+
+    // Read the events for the first file
+    while ((await downloader.next()).value?.type !== 'versionend') {
+      // Keep reading
     }
-  });
 
-  it('should do nothing when the latest version equals the current version', async () => {
-    fetchMock.mock('end:jpdict-rc-en-version.json', {
-      kanji: { '1': { ...VERSION_1_0_0.kanji['1'], patch: 1 } },
-    });
+    // Give the prefetched file a chance to buffer
+    await new Promise((resolve) => setTimeout(resolve, 20));
 
-    const downloader = kanjiDownload({
-      currentVersion: { major: 1, minor: 0, patch: 1 },
-    });
+    // We should only have buffered the first line (plus whatever the streams
+    // themselves read ahead).
+    assert.isAtMost(linesRead, 4);
 
     const events = await drainEvents(downloader);
-    assert.strictEqual(events.length, 0);
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ['version', ...new Array(10).fill('entry'), 'versionend']
+    );
   });
 
-  it('should re-download from the first file when there is a new minor version', async () => {
+  it('should cancel prefetched files when aborted', async () => {
     fetchMock.mock('end:jpdict-rc-en-version.json', {
       kanji: {
         '1': {
           ...VERSION_1_0_0.kanji['1'],
-          minor: 2,
-          patch: 11,
+          patch: 1,
         },
       },
     });
-    mockAllDataFilesWithEmpty();
-
-    const downloader = kanjiDownload({
+    fetchMock.mock(
+      'end:kanji-rc-en-1.0.0.ljson',
+      `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":0}
+`
+    );
+    let canceled = false;
+    fetchMock.mock(
+      'end:kanji-rc-en-1.0.1.ljson',
+      () =>
+        new Response(
+          new ReadableStream({
+            // Never produce anything
+            pull: () => new Promise(() => {}),
+            cancel() {
+              canceled = true;
+            },
+          })
+        )
+    );
+
+    const abortController = new AbortController();
+    const downloader = kanjiDownload({
+      prefetch: { concurrency: 1 },
+      signal: abortController.signal,
+    });
+
+    // Read plan and version events
+    await downloader.next();
+    await downloader.next();
+    assert.isTrue(fetchMock.called('end:kanji-rc-en-1.0.1.ljson'));
+
+    abortController.abort();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    assert.isTrue(canceled);
+  });
+
+  it('should time out prefetched files that stall', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', {
+      kanji: {
+        '1': {
+          ...VERSION_1_0_0.kanji['1'],
+          patch: 1,
+        },
+      },
+    });
+    fetchMock.mock(
+      'end:kanji-rc-en-1.0.0.ljson',
+      `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":0}
+`
+    );
+    let canceled = false;
+    fetchMock.mock(
+      'end:kanji-rc-en-1.0.1.ljson',
+      () =>
+        new Response(
+          new ReadableStream({
+            pull: () => new Promise(() => {}),
+            cancel() {
+              canceled = true;
+            },
+          })
+        )
+    );
+
+    const downloader = kanjiDownload({
+      prefetch: { concurrency: 1 },
+      transport: { timeout: 50 },
+    });
+
+    // Read the events for the first file but don't ask for the second
+    while ((await downloader.next()).value?.type !== 'versionend') {
+      // Keep reading
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    assert.isTrue(canceled);
+
+    try {
+      await drainEvents(downloader);
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      const [downloadError] = parseDrainError(e);
+      assert.strictEqual(downloadError.code, DownloadErrorCode.Timeout);
+    }
+  });
+
+  it('reports deletion events', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', {
+      kanji: {
+        '1': {
+          ...VERSION_1_0_0.kanji['1'],
+          patch: 2,
+        },
+      },
+    });
+    fetchMock.mock(
+      'end:kanji-rc-en-1.0.2.ljson',
+      `{"type":"header","version":{"major":1,"minor":0,"patch":2,"databaseVersion":"2019-175","dateOfCreation":"2019-06-24"},"records":1}
+{"c":"鍋","deleted":true}`
+    );
+
+    const events = await drainEvents(
+      kanjiDownload({
+        currentVersion: { major: 1, minor: 0, patch: 1 },
+      })
+    );
+
+    assert.deepEqual(events[1], {
+      type: 'deletion',
+      c: '鍋',
+      deleted: true,
+    });
+  });
+
+  it('should fail if one of the patches is missing', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', {
+      kanji: { '1': { ...VERSION_1_0_0.kanji['1'], patch: 1 } },
+    });
+    fetchMock.mock(
+      'end:kanji-rc-en-1.0.0.ljson',
+      `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":1}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}`
+    );
+    fetchMock.mock('end:kanji-rc-en-1.0.1.ljson', 404);
+
+    const downloader = kanjiDownload();
+    try {
+      await drainEvents(downloader);
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      const [downloadError, events] = parseDrainError(e);
+      assert.strictEqual(
+        downloadError.code,
+        DownloadErrorCode.DatabaseFileNotFound
+      );
+      assert.strictEqual(events.length, 3);
+    }
+  });
+
+  it('should fail if one of the patches is corrupt', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', {
+      kanji: { '1': { ...VERSION_1_0_0.kanji['1'], patch: 1 } },
+    });
+    fetchMock.mock(
+      'end:kanji-rc-en-1.0.0.ljson',
+      `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":1}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}`
+    );
+    fetchMock.mock('end:kanji-rc-en-1.0.1.ljson', 'yer');
+
+    const downloader = kanjiDownload();
+    try {
+      await drainEvents(downloader);
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      const [downloadError, events] = parseDrainError(e);
+      assert.strictEqual(
+        downloadError.code,
+        DownloadErrorCode.DatabaseFileInvalidJSON
+      );
+      assert.strictEqual(events.length, 3);
+    }
+  });
+
+  it('should fail if one of the patches has a mismatched header', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', {
+      kanji: { '1': { ...VERSION_1_0_0.kanji['1'], patch: 1 } },
+    });
+    fetchMock.mock(
+      'end:kanji-rc-en-1.0.0.ljson',
+      `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":1}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}`
+    );
+    fetchMock.mock(
+      'end:kanji-rc-en-1.0.1.ljson',
+      `{"type":"header","version":{"major":1,"minor":1,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":1}
+{"c":"㐂","r":{},"m":[],"rad":{"x":2},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}`
+    );
+
+    const downloader = kanjiDownload();
+    try {
+      await drainEvents(downloader);
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      const [downloadError, events] = parseDrainError(e);
+      assert.strictEqual(
+        downloadError.code,
+        DownloadErrorCode.DatabaseFileVersionMismatch
+      );
+      assert.strictEqual(events.length, 3);
+    }
+  });
+
+  it('should fail when the latest version is less than the current version', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', {
+      kanji: { '1': { ...VERSION_1_0_0.kanji['1'], patch: 1 } },
+    });
+
+    const downloader = kanjiDownload({
+      currentVersion: { major: 1, minor: 0, patch: 2 },
+    });
+    try {
+      await drainEvents(downloader);
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      const [downloadError] = parseDrainError(e);
+      assert.strictEqual(downloadError.code, DownloadErrorCode.DatabaseTooOld);
+    }
+  });
+
+  it('should do nothing when the latest version equals the current version', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', {
+      kanji: { '1': { ...VERSION_1_0_0.kanji['1'], patch: 1 } },
+    });
+
+    const downloader = kanjiDownload({
+      currentVersion: { major: 1, minor: 0, patch: 1 },
+    });
+
+    const events = await drainEvents(downloader);
+    assert.strictEqual(events.length, 0);
+  });
+
+  it('should re-download from the first file when there is a new minor version', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', {
+      kanji: {
+        '1': {
+          ...VERSION_1_0_0.kanji['1'],
+          minor: 2,
+          patch: 11,
+        },
+      },
+    });
+    mockAllDataFilesWithEmpty();
+
+    const downloader = kanjiDownload({
       currentVersion: { major: 1, minor: 0, patch: 2 },
     });
     await drainEvents(downloader);
@@ -706,6 +1170,92 @@ ${entry}
     );
   });
 
+  it('should download a bridge when there is a new minor version', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', {
+      kanji: {
+        '1': {
+          ...VERSION_1_0_0.kanji['1'],
+          minor: 2,
+          patch: 1,
+          sizes: { '0': 1000, '1': 50 },
+          bridges: { '1.0.2': { size: 100 } },
+        },
+      },
+    });
+    fetchMock.mock(
+      'end:kanji-rc-en-1.2.0-from-1.0.2.ljson',
+      `{"type":"header","version":{"major":1,"minor":2,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":0,"from":{"major":1,"minor":0,"patch":2}}
+`
+    );
+    mockAllDataFilesWithEmpty();
+
+    const events = await drainEvents(
+      kanjiDownload({
+        currentVersion: { major: 1, minor: 0, patch: 2 },
+      }),
+      { includePlanEvents: true }
+    );
+
+    assert.isFalse(fetchMock.called('end:kanji-rc-en-1.2.0.ljson'));
+    assert.deepEqual(events, [
+      {
+        type: 'plan',
+        files: [
+          {
+            major: 1,
+            minor: 2,
+            patch: 0,
+            from: { major: 1, minor: 0, patch: 2 },
+            size: 100,
+          },
+          { major: 1, minor: 2, patch: 1, size: 50 },
+        ],
+      },
+      {
+        type: 'version',
+        major: 1,
+        minor: 2,
+        patch: 0,
+        databaseVersion: '2019-173',
+        dateOfCreation: '2019-06-22',
+        from: { major: 1, minor: 0, patch: 2 },
+      },
+      { type: 'versionend' },
+      {
+        type: 'version',
+        major: 1,
+        minor: 2,
+        patch: 1,
+        databaseVersion: '2019-173',
+        dateOfCreation: '2019-06-22',
+      },
+      { type: 'versionend' },
+    ]);
+  });
+
+  it('should re-download from the first file when there is no bridge for the current version', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', {
+      kanji: {
+        '1': {
+          ...VERSION_1_0_0.kanji['1'],
+          minor: 2,
+          patch: 0,
+          bridges: { '1.0.1': { size: 100 } },
+        },
+      },
+    });
+    mockAllDataFilesWithEmpty();
+
+    await drainEvents(
+      kanjiDownload({
+        currentVersion: { major: 1, minor: 0, patch: 2 },
+      })
+    );
+
+    assert.isTrue(fetchMock.called('end:kanji-rc-en-1.2.0.ljson'));
+    assert.isFalse(fetchMock.called('end:kanji-rc-en-1.2.0-from-1.0.1.ljson'));
+  });
+
   it('should re-download from the first file when there is a new major version we support', async () => {
     fetchMock.mock('end:jpdict-rc-en-version.json', {
       kanji: {
@@ -775,15 +1325,455 @@ ${entry}
     const abortController = new AbortController();
     const downloader = kanjiDownload({ signal: abortController.signal });
 
-    // Read version event
+    // Read plan event
     let readResult = await downloader.next();
     assert.isFalse(readResult.done, 'Iterator should not have finished yet');
 
+    // Read version event
+    readResult = await downloader.next();
+    assert.isFalse(readResult.done, 'Iterator should not have finished yet');
+
     abortController.abort();
 
     return assert.isRejected(downloader.next(), AbortError);
   });
 
+  it('should resume the download when the connection drops', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_1_0_0);
+
+    const firstPart = `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":2}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+{"c":"㐆","r":{},"m":["to follow"`;
+    const secondPart = `{"c":"㐆","r":{},"m":["to follow","to trust to"],"rad":{"x":4},"refs":{},"misc":{"sc":6}}
+`;
+    const firstLineBreak = new TextEncoder().encode(
+      firstPart.substring(0, firstPart.lastIndexOf('\n') + 1)
+    ).length;
+
+    const rangeHeaders: Array<string | null> = [];
+    fetchMock.mock('end:kanji-rc-en-1.0.0.ljson', (_url, opts) => {
+      const headers = new Headers(opts.headers);
+      rangeHeaders.push(headers.get('Range'));
+
+      if (!headers.has('Range')) {
+        return new Response(droppedStream(firstPart), {
+          headers: { ETag: '"abc"' },
+        });
+      }
+
+      assert.strictEqual(headers.get('If-Range'), '"abc"');
+      return new Response(secondPart, {
+        status: 206,
+        headers: {
+          ETag: '"abc"',
+          'Content-Range': `bytes ${firstLineBreak}-${
+            firstLineBreak + secondPart.length - 1
+          }/*`,
+        },
+      });
+    });
+
+    const events = await drainEvents(kanjiDownload());
+
+    assert.deepEqual(rangeHeaders, [null, `bytes=${firstLineBreak}-`]);
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ['version', 'entry', 'entry', 'versionend']
+    );
+    assert.deepEqual((events[2] as EntryEvent<KanjiEntryLine>).m, [
+      'to follow',
+      'to trust to',
+    ]);
+  });
+
+  it('should skip already-read lines when the server ignores the range', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_1_0_0);
+
+    const contents = `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":2}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+{"c":"㐆","r":{},"m":[],"rad":{"x":4},"refs":{},"misc":{"sc":6}}
+`;
+
+    let callCount = 0;
+    fetchMock.mock('end:kanji-rc-en-1.0.0.ljson', () => {
+      const lastModified = 'Sat, 22 Jun 2019 00:00:00 GMT';
+      if (callCount++) {
+        return new Response(contents, {
+          headers: { 'Last-Modified': lastModified },
+        });
+      }
+
+      return new Response(droppedStream(contents.substring(0, 200)), {
+        headers: { 'Last-Modified': lastModified },
+      });
+    });
+
+    const events = await drainEvents(kanjiDownload());
+
+    assert.strictEqual(callCount, 2);
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ['version', 'entry', 'entry', 'versionend']
+    );
+  });
+
+  it('should restart the download when the server rejects the range', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_1_0_0);
+
+    const contents = `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":2}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+{"c":"㐆","r":{},"m":[],"rad":{"x":4},"refs":{},"misc":{"sc":6}}
+`;
+
+    const rangeHeaders: Array<string | null> = [];
+    fetchMock.mock('end:kanji-rc-en-1.0.0.ljson', (_url, opts) => {
+      const headers = new Headers(opts.headers);
+      rangeHeaders.push(headers.get('Range'));
+
+      if (rangeHeaders.length === 1) {
+        return new Response(droppedStream(contents.substring(0, 200)), {
+          headers: { ETag: '"abc"' },
+        });
+      }
+
+      if (headers.has('Range')) {
+        return new Response('', { status: 416 });
+      }
+
+      return new Response(contents, { headers: { ETag: '"abc"' } });
+    });
+
+    const start = Date.now();
+    const events = await drainEvents(kanjiDownload({ resumeDelay: 20 }));
+
+    assert.strictEqual(rangeHeaders.length, 3);
+    assert.isNull(rangeHeaders[0]);
+    assert.isString(rangeHeaders[1]);
+    assert.isNull(rangeHeaders[2]);
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ['version', 'entry', 'entry', 'versionend']
+    );
+    // We should have waited 20ms before the first attempt and 40ms before the
+    // second.
+    assert.isAtLeast(Date.now() - start, 60);
+  });
+
+  it('should fail if the file changes while resuming the download', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_1_0_0);
+
+    const contents = `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":2}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+{"c":"㐆","r":{},"m":[],"rad":{"x":4},"refs":{},"misc":{"sc":6}}
+`;
+
+    let callCount = 0;
+    fetchMock.mock('end:kanji-rc-en-1.0.0.ljson', () => {
+      if (callCount++) {
+        return new Response(contents, { headers: { ETag: '"def"' } });
+      }
+
+      return new Response(droppedStream(contents.substring(0, 200)), {
+        headers: { ETag: '"abc"' },
+      });
+    });
+
+    try {
+      await drainEvents(kanjiDownload());
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      const [downloadError, events] = parseDrainError(e);
+      assert.strictEqual(
+        downloadError.code,
+        DownloadErrorCode.DatabaseFileChanged
+      );
+      assert.strictEqual(events.length, 1);
+    }
+  });
+
+  it('should not try to resume the download when the file has no validator', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_1_0_0);
+    fetchMock.mock(
+      'end:kanji-rc-en-1.0.0.ljson',
+      () =>
+        new Response(
+          droppedStream(
+            `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":2}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+`
+          )
+        )
+    );
+
+    try {
+      await drainEvents(kanjiDownload());
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      const [downloadError] = parseDrainError(e);
+      assert.strictEqual(
+        downloadError.code,
+        DownloadErrorCode.DatabaseFileNotAccessible
+      );
+      assert.strictEqual(
+        fetchMock.calls('end:kanji-rc-en-1.0.0.ljson').length,
+        1
+      );
+    }
+  });
+
+  it('should decompress gzip-compressed files', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_1_0_0);
+    fetchMock.mock(
+      'end:kanji-rc-en-1.0.0.ljson.gz',
+      () =>
+        new Response(
+          compress(
+            `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":1}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+`,
+            'gzip'
+          )
+        )
+    );
+
+    const events = await drainEvents(kanjiDownload({ compression: 'gzip' }), {
+      includeProgressEvents: true,
+    });
+
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ['version', 'entry', 'progress', 'versionend']
+    );
+    assert.include(events[2], { type: 'progress', loaded: 1, total: 1 });
+  });
+
+  it('should use the supplied decompressor', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_1_0_0);
+    fetchMock.mock(
+      'end:kanji-rc-en-1.0.0.ljson.br',
+      `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":0}
+`
+    );
+
+    const formats: Array<string> = [];
+    const decompress = (
+      stream: ReadableStream<Uint8Array>,
+      format: CompressionFormat
+    ) => {
+      formats.push(format);
+      return stream;
+    };
+
+    const events = await drainEvents(
+      kanjiDownload({ compression: 'br', decompress })
+    );
+
+    assert.deepEqual(formats, ['br']);
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ['version', 'versionend']
+    );
+  });
+
+  it('should fail if the decompressor does not support the format', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_1_0_0);
+    fetchMock.mock('end:kanji-rc-en-1.0.0.ljson.br', 'yer');
+
+    const decompress = () => {
+      throw new TypeError('Unsupported compression format');
+    };
+
+    try {
+      await drainEvents(kanjiDownload({ compression: 'br', decompress }));
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      const [downloadError] = parseDrainError(e);
+      assert.strictEqual(
+        downloadError.code,
+        DownloadErrorCode.DecompressionNotSupported
+      );
+    }
+  });
+
+  it('should use the supplied fetcher and headers', async () => {
+    const requests: Array<{ url: string; authorization: string | null }> = [];
+    const fetcher = async (url: string, init: RequestInit) => {
+      requests.push({
+        url,
+        authorization: new Headers(init.headers).get('Authorization'),
+      });
+
+      if (url.endsWith('jpdict-rc-en-version.json')) {
+        return new Response(JSON.stringify(VERSION_1_0_0));
+      }
+
+      return new Response(
+        `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":0}
+`
+      );
+    };
+
+    const events = await drainEvents(
+      kanjiDownload({
+        baseUrl: 'https://example.org/',
+        transport: { fetcher, headers: { Authorization: 'Bearer abc' } },
+      })
+    );
+
+    assert.deepEqual(requests, [
+      {
+        url: 'https://example.org/jpdict-rc-en-version.json',
+        authorization: 'Bearer abc',
+      },
+      {
+        url: 'https://example.org/kanji-rc-en-1.0.0.ljson',
+        authorization: 'Bearer abc',
+      },
+    ]);
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ['version', 'versionend']
+    );
+    assert.isFalse(fetchMock.called(), 'Should NOT use the global fetch');
+  });
+
+  it('should respect the supplied timeout', async () => {
+    const fetcher = () => new Promise<Response>(() => {});
+
+    try {
+      await drainEvents(kanjiDownload({ transport: { fetcher, timeout: 50 } }));
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      const [downloadError] = parseDrainError(e);
+      assert.strictEqual(downloadError.code, DownloadErrorCode.Timeout);
+    }
+  });
+
+  it('should verify the checksum of the database file', async () => {
+    const contents = `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":1}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+`;
+    fetchMock.mock('end:jpdict-rc-en-version.json', {
+      kanji: {
+        '1': {
+          ...VERSION_1_0_0.kanji['1'],
+          sha256: { '0': await sha256(contents) },
+        },
+      },
+    });
+    fetchMock.mock('end:kanji-rc-en-1.0.0.ljson', contents);
+
+    const events = await drainEvents(kanjiDownload());
+
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ['version', 'entry', 'versionend']
+    );
+    assert.deepInclude(events[0], { type: 'version', hasChecksum: true });
+  });
+
+  it('should fail if the checksum of the database file does not match', async () => {
+    const contents = `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":1}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+`;
+    fetchMock.mock('end:jpdict-rc-en-version.json', {
+      kanji: {
+        '1': {
+          ...VERSION_1_0_0.kanji['1'],
+          sha256: { '0': await sha256(contents + '\n') },
+        },
+      },
+    });
+    fetchMock.mock('end:kanji-rc-en-1.0.0.ljson', contents);
+
+    try {
+      await drainEvents(kanjiDownload());
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      const [downloadError, events] = parseDrainError(e);
+      assert.strictEqual(
+        downloadError.code,
+        DownloadErrorCode.DatabaseFileChecksumMismatch
+      );
+      assert.deepEqual(
+        events.map((event) => event.type),
+        ['version', 'entry']
+      );
+    }
+  });
+
+  it('should verify the checksum of a resumed download', async () => {
+    const contents = `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":2}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+{"c":"㐆","r":{},"m":[],"rad":{"x":4},"refs":{},"misc":{"sc":6}}
+`;
+    fetchMock.mock('end:jpdict-rc-en-version.json', {
+      kanji: {
+        '1': {
+          ...VERSION_1_0_0.kanji['1'],
+          sha256: { '0': await sha256(contents) },
+        },
+      },
+    });
+
+    let callCount = 0;
+    fetchMock.mock('end:kanji-rc-en-1.0.0.ljson', () => {
+      const lastModified = 'Sat, 22 Jun 2019 00:00:00 GMT';
+      if (callCount++) {
+        return new Response(contents, {
+          headers: { 'Last-Modified': lastModified },
+        });
+      }
+
+      return new Response(droppedStream(contents.substring(0, 200)), {
+        headers: { 'Last-Modified': lastModified },
+      });
+    });
+
+    const events = await drainEvents(kanjiDownload());
+
+    assert.strictEqual(callCount, 2);
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ['version', 'entry', 'entry', 'versionend']
+    );
+  });
+
+  it('should report byte-based progress', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_1_0_0);
+    const contents = `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"2019-173","dateOfCreation":"2019-06-22"},"records":1}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+`;
+    const length = new TextEncoder().encode(contents).length;
+    fetchMock.mock(
+      'end:kanji-rc-en-1.0.0.ljson',
+      new Response(contents, {
+        headers: { 'Content-Length': String(length) },
+      })
+    );
+
+    const events = await drainEvents(kanjiDownload(), {
+      includeProgressEvents: true,
+    });
+
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ['version', 'progress', 'entry', 'progress', 'versionend']
+    );
+
+    // We should report the bytes received even before reading any records
+    const firstProgress = events[1] as ProgressEvent;
+    assert.strictEqual(firstProgress.loaded, 0);
+    assert.strictEqual(firstProgress.total, 1);
+    assert.strictEqual(firstProgress.bytesLoaded, length);
+    assert.strictEqual(firstProgress.bytesTotal, length);
+    assert.strictEqual(firstProgress.secondsRemaining ?? 0, 0);
+
+    const lastProgress = events[3] as ProgressEvent;
+    assert.strictEqual(lastProgress.loaded, 1);
+    assert.strictEqual(lastProgress.bytesLoaded, length);
+  });
+
   it('should produce progress events', async () => {
     fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_1_0_0);
     fetchMock.mock(
@@ -866,6 +1856,55 @@ function mockAllDataFilesWithEmpty() {
   });
 }
 
+class MemoryVersionFileCache implements VersionFileCache {
+  private entries: Map<string, CachedVersionFile> = new Map();
+
+  async get(url: string) {
+    return this.entries.get(url);
+  }
+
+  async set(url: string, entry: CachedVersionFile) {
+    this.entries.set(url, entry);
+  }
+
+  async clear() {
+    this.entries.clear();
+  }
+}
+
+// Returns a stream that produces the given text and then fails as if the
+// connection had been dropped.
+function droppedStream(text: string): ReadableStream<Uint8Array> {
+  let sent = false;
+  return new ReadableStream({
+    pull(controller) {
+      if (sent) {
+        controller.error(new TypeError('Connection reset'));
+        return;
+      }
+
+      controller.enqueue(new TextEncoder().encode(text));
+      sent = true;
+    },
+  });
+}
+
+function compress(text: string, format: string): ReadableStream<Uint8Array> {
+  // CompressionStream is not yet in the TypeScript DOM typings.
+  const CompressionStream = (self as any).CompressionStream;
+  return new Response(text).body!.pipeThrough(new CompressionStream(format));
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await self.crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
 // If we get an error while draining, we should return the error along with all
 // the events read up until that point.
 class DrainError extends Error {
@@ -892,13 +1931,19 @@ class DrainError extends Error {
 
 async function drainEvents(
   downloader: AsyncIterableIterator<KanjiDownloadEvent>,
-  { includeProgressEvents = false }: { includeProgressEvents?: boolean } = {}
+  {
+    includeProgressEvents = false,
+    includePlanEvents = false,
+  }: { includeProgressEvents?: boolean; includePlanEvents?: boolean } = {}
 ): Promise<Array<KanjiDownloadEvent>> {
   const events: Array<KanjiDownloadEvent> = [];
 
   try {
     for await (const event of downloader) {
-      if (includeProgressEvents || event.type !== 'progress') {
+      if (
+        (includeProgressEvents || event.type !== 'progress') &&
+        (includePlanEvents || event.type !== 'plan')
+      ) {
         events.push(event);
       }
     }
@@ -1,6 +1,13 @@
 import { AbortError } from './abort-error';
-import { DataSeries } from './data-series';
+import { allDataSeries, DataSeries } from './data-series';
 import { DataVersion } from './data-version';
+import { createSha256 } from './sha256';
+import { formatValidationFailure, ValidationFailure } from './validation';
+import {
+  CachedVersionFile,
+  defaultVersionFileCache,
+  VersionFileCache,
+} from './version-file-cache';
 
 // Produces an async interator of DownloadEvents
 
@@ -15,6 +22,18 @@ export interface VersionEvent {
   patch: number;
   databaseVersion?: string;
   dateOfCreation: string;
+  // Set when a file with a non-zero patch number nevertheless contains the
+  // full set of records (e.g. a file produced by exporting the database).
+  snapshot?: boolean;
+  // Set when the file is a diff from the given version (i.e. a bridge from
+  // a previous minor version) rather than the full set of records for the
+  // first patch of a minor version.
+  from?: Version;
+  // Set when the file will be checked against a checksum once it has been
+  // read in full (i.e. before the corresponding VersionEndEvent).
+  //
+  // Until then, the records read from the file should not be trusted.
+  hasChecksum?: boolean;
 }
 
 export interface VersionEndEvent {
@@ -23,34 +42,301 @@ export interface VersionEndEvent {
 
 export interface ProgressEvent {
   type: 'progress';
+  // The number of records read so far and the total number of records in the
+  // file (or zero if we haven't read the header yet).
   loaded: number;
   total: number;
+  // The number of bytes of the file received so far.
+  bytesLoaded?: number;
+  // The size of the file in bytes, if known (i.e. from the Content-Length).
+  bytesTotal?: number;
+  // The estimated transfer rate and time remaining, if known.
+  bytesPerSecond?: number;
+  secondsRemaining?: number;
+}
+
+type ByteProgress = Pick<
+  ProgressEvent,
+  'bytesLoaded' | 'bytesTotal' | 'bytesPerSecond' | 'secondsRemaining'
+>;
+
+// A file we plan to download.
+//
+// If `snapshot` is true, the file is a full snapshot of the given version
+// rather than a patch.
+//
+// If `from` is set, the file is a bridge that updates the given version (from
+// a previous minor version) to the first patch of the new minor version.
+export type PlannedFile = {
+  major: number;
+  minor: number;
+  patch: number;
+  snapshot?: boolean;
+  from?: Version;
+  // The size of the file in bytes, if known
+  size?: number;
+};
+
+// Dispatched before downloading anything to report all the files we are about
+// to download.
+export interface PlanEvent {
+  type: 'plan';
+  files: Array<PlannedFile>;
+}
+
+// A record that was skipped because it was not recognized (see
+// InvalidRecordPolicy).
+export type QuarantinedRecord = {
+  // The (1-based) line number of the record in the file, not counting blank
+  // lines
+  lineNumber: number;
+  // The record as JSON
+  line: string;
+  // The field that failed to validate, if known
+  field?: string;
+};
+
+// Dispatched when a record is skipped due to the 'quarantine' policy.
+export interface QuarantineEvent {
+  type: 'quarantine';
+  record: QuarantinedRecord;
 }
 
 export type DownloadEvent<EntryLine, DeletionLine> =
+  | PlanEvent
   | VersionEvent
   | VersionEndEvent
   | EntryEvent<EntryLine>
   | DeletionEvent<DeletionLine>
-  | ProgressEvent;
+  | ProgressEvent
+  | QuarantineEvent;
 
-const DEFAULT_BASE_URL = 'https://d907hooix2fo8.cloudfront.net/';
+// How to handle records in a database file that are not recognized.
+//
+// 'reject' fails the download while 'quarantine' skips the record, reporting
+// it via a QuarantineEvent.
+export type InvalidRecordPolicy = 'reject' | 'quarantine';
+
+export const DEFAULT_BASE_URL = 'https://d907hooix2fo8.cloudfront.net/';
 
 // How many percentage should change before we dispatch a new progress event.
 const DEFAULT_MAX_PROGRESS_RESOLUTION = 0.05;
 
 const FETCH_TIMEOUT_MS = 20 * 1000; // 20s
 
+// How long we will use a cached version file before checking for a new one.
+export const DEFAULT_VERSION_FILE_TTL_MS = 5 * 60 * 1000; // 5min
+
+// How many times we will try to resume downloading a database file after the
+// connection drops part-way through.
+const DEFAULT_MAX_RESUME_ATTEMPTS = 3;
+
+// How long we wait before trying to resume a download, doubling with each
+// attempt, so that we don't use up all our attempts before the connection has
+// had a chance to recover.
+const DEFAULT_RESUME_DELAY_MS = 500;
+
+// The maximum number of bytes we will buffer (across all files) when
+// prefetching.
+const DEFAULT_MAX_PREFETCH_BYTES = 16 * 1024 * 1024; // 16Mb
+
+// How many patches we will download before preferring to download a full
+// snapshot instead (when one is available and we don't know the file sizes).
+const DEFAULT_MAX_PATCHES = 10;
+
 interface VersionInfo {
   major: number;
   minor: number;
   patch: number;
   databaseVersion: string;
   dateOfCreation: string;
+  // Optional SHA-256 digests (as lowercase hex strings) of the (uncompressed)
+  // database files for the current minor version, indexed by patch number.
+  sha256?: { [patch: string]: string };
+  // Optional sizes in bytes of the database files for the current minor
+  // version, indexed by patch number.
+  sizes?: { [patch: string]: number };
+  // If present, a full snapshot of the current version is also available
+  // (e.g. `words-rc-en-2.0.3-snapshot.ljson`).
+  snapshot?: FileInfo;
+  // Diffs from the last patch of previous minor versions to the first patch
+  // of the current minor version (e.g. `words-rc-en-2.1.0-from-2.0.9.ljson`),
+  // indexed by the version they apply to (e.g. '2.0.9').
+  //
+  // When updating from a previous minor version for which there is no bridge,
+  // we download the current minor version in full.
+  bridges?: { [fromVersion: string]: FileInfo };
+}
+
+interface FileInfo {
+  size?: number;
+  sha256?: string;
+}
+
+// Compression formats we support for database files.
+//
+// These are for servers that store pre-compressed files (e.g.
+// `words-rc-en-2.0.0.ljson.gz`) but serve them without a Content-Encoding
+// header. Files served WITH a Content-Encoding header are decompressed by the
+// browser and don't need any special handling.
+export type CompressionFormat = 'gzip' | 'br';
+
+// A function that takes a stream of compressed bytes and returns a stream of
+// decompressed bytes.
+export type Decompressor = (
+  stream: ReadableStream<Uint8Array>,
+  format: CompressionFormat
+) => ReadableStream<Uint8Array>;
+
+// A function with the same signature as `fetch` used for fetching the version
+// and database files.
+//
+// This allows clients to, for example, proxy requests via a background page or
+// read files from a local bundle.
+export type Fetcher = (url: string, init: RequestInit) => Promise<Response>;
+
+export type TransportOptions = {
+  // The function to use in place of the global `fetch`.
+  fetcher?: Fetcher;
+  // Any additional headers to send with each request (e.g. for authentication).
+  headers?: Record<string, string>;
+  // How long to wait, in milliseconds, for a response (or the next part of
+  // a response) before giving up.
+  timeout?: number;
+};
+
+// Options for fetching subsequent database files while the current one is
+// still being processed.
+export type PrefetchOptions = {
+  // The number of files to fetch ahead of the current one.
+  concurrency: number;
+  // The maximum number of bytes to buffer across all the prefetched files.
+  maxBytes?: number;
+};
+
+// Functions for producing the names of the files on the server (relative to the
+// base URL).
+//
+// This is intended for clients that host the data themselves using a different
+// naming scheme.
+//
+// Note that if a compression format is specified, the corresponding file
+// extension (e.g. '.gz') is appended to the name of each database file.
+export type FileNaming = {
+  versionFile?: (params: { lang: string }) => string;
+  databaseFile?: (params: {
+    series: DataSeries;
+    lang: string;
+    version: Version;
+  }) => string;
+  snapshotFile?: (params: {
+    series: DataSeries;
+    lang: string;
+    version: Version;
+  }) => string;
+  bridgeFile?: (params: {
+    series: DataSeries;
+    lang: string;
+    version: Version;
+    from: Version;
+  }) => string;
+};
+
+const defaultVersionFileName = ({ lang }: { lang: string }) =>
+  `jpdict-rc-${lang}-version.json`;
+
+const defaultDatabaseFileName = ({
+  series,
+  lang,
+  version,
+}: {
+  series: DataSeries;
+  lang: string;
+  version: Version;
+}) =>
+  `${series}-rc-${lang}-${version.major}.${version.minor}.${version.patch}.ljson`;
+
+const defaultSnapshotFileName = ({
+  series,
+  lang,
+  version,
+}: {
+  series: DataSeries;
+  lang: string;
+  version: Version;
+}) =>
+  `${series}-rc-${lang}-${version.major}.${version.minor}.${version.patch}-snapshot.ljson`;
+
+const defaultBridgeFileName = ({
+  series,
+  lang,
+  version,
+  from,
+}: {
+  series: DataSeries;
+  lang: string;
+  version: Version;
+  from: Version;
+}) =>
+  `${series}-rc-${lang}-${versionToString(version)}-from-${versionToString(
+    from
+  )}.ljson`;
+
+function versionToString({ major, minor, patch }: Version): string {
+  return `${major}.${minor}.${patch}`;
+}
+
+// Returns an identifier for the given file naming scheme, or undefined if it
+// produces the same names as the default scheme.
+//
+// Since the naming functions themselves can't be stored, the identifier is
+// a digest of the names they produce for a sample version of each series.
+export function getFileNamingId(fileNaming: FileNaming): string | undefined {
+  const getNames = ({
+    versionFile,
+    databaseFile,
+    snapshotFile,
+    bridgeFile,
+  }: Required<FileNaming>): Array<string> => {
+    const lang = 'en';
+    const version = { major: 1, minor: 2, patch: 3 };
+    const from = { major: 1, minor: 1, patch: 4 };
+    return [
+      versionFile({ lang }),
+      ...allDataSeries.map((series) =>
+        [
+          databaseFile({ series, lang, version }),
+          snapshotFile({ series, lang, version }),
+          bridgeFile({ series, lang, version, from }),
+        ].join('\n')
+      ),
+    ];
+  };
+
+  const names = getNames({
+    versionFile: fileNaming.versionFile || defaultVersionFileName,
+    databaseFile: fileNaming.databaseFile || defaultDatabaseFileName,
+    snapshotFile: fileNaming.snapshotFile || defaultSnapshotFileName,
+    bridgeFile: fileNaming.bridgeFile || defaultBridgeFileName,
+  }).join('\n');
+  const defaultNames = getNames({
+    versionFile: defaultVersionFileName,
+    databaseFile: defaultDatabaseFileName,
+    snapshotFile: defaultSnapshotFileName,
+    bridgeFile: defaultBridgeFileName,
+  }).join('\n');
+  if (names === defaultNames) {
+    return undefined;
+  }
+
+  const hash = createSha256();
+  hash.update(new TextEncoder().encode(names));
+  return hash.digest().substring(0, 16);
 }
 
 export type DownloadOptions<EntryLine, DeletionLine> = {
   baseUrl?: string;
+  fileNaming?: FileNaming;
   series: DataSeries;
   majorVersion: number;
   currentVersion?: {
@@ -61,9 +347,37 @@ export type DownloadOptions<EntryLine, DeletionLine> = {
   lang: string;
   signal: AbortSignal;
   maxProgressResolution?: number;
+  maxResumeAttempts?: number;
+  // How long to wait, in milliseconds, before the first attempt to resume
+  // a download after the connection drops. The delay doubles with each
+  // subsequent attempt.
+  resumeDelay?: number;
+  // The maximum number of patches to download before falling back to
+  // downloading a full snapshot (if available) instead.
+  maxPatches?: number;
+  prefetch?: PrefetchOptions;
+  compression?: CompressionFormat;
+  decompress?: Decompressor;
+  transport?: TransportOptions;
+  versionFileCache?: VersionFileCacheOptions;
+  // If true, always check for a new version file, even if the cached one has
+  // not expired yet.
   forceFetch?: boolean;
+  // How to handle unrecognized records (defaults to 'reject').
+  invalidRecords?: InvalidRecordPolicy;
   isEntryLine: (a: any) => a is EntryLine;
   isDeletionLine: (a: any) => a is DeletionLine;
+  // If provided, used to report why a record is not a valid entry line.
+  validateEntryLine?: (a: any) => Array<ValidationFailure>;
+};
+
+export type VersionFileCacheOptions = {
+  // The cache to use (defaults to one that is shared between all instances
+  // and, where possible, persisted).
+  cache?: VersionFileCache;
+  // How long, in milliseconds, to use a cached version file before checking
+  // for a new one.
+  ttl?: number;
 };
 
 export const enum DownloadErrorCode {
@@ -80,18 +394,45 @@ export const enum DownloadErrorCode {
   DatabaseFileInvalidRecord,
   DatabaseTooOld,
   Timeout,
+  DatabaseFileChanged,
+  DecompressionNotSupported,
+  DatabaseFileChecksumMismatch,
 }
 
+// Structured information about the circumstances of a DownloadError (e.g. for
+// grouping errors in telemetry without parsing the error message).
+export type DownloadErrorDiagnostics = {
+  // The HTTP status and response headers, for errors relating to a response
+  status?: number;
+  headers?: Record<string, string>;
+  // The offset in bytes of the start of the line we were reading and its
+  // (1-based) line number, not counting blank lines
+  byteOffset?: number;
+  lineNumber?: number;
+  // The version we expected and the one we got, for version mismatches
+  expectedVersion?: Version;
+  actualVersion?: Version;
+  // The (1-based) attempt at fetching the file, when resuming downloads
+  attempt?: number;
+  // The reasons a record was rejected, when available
+  validationFailures?: Array<ValidationFailure>;
+};
+
 interface DownloadErrorOptions {
   code: DownloadErrorCode;
   url?: string;
+  diagnostics?: DownloadErrorDiagnostics;
 }
 
 export class DownloadError extends Error {
   code: DownloadErrorCode;
   url?: string;
+  diagnostics?: DownloadErrorDiagnostics;
 
-  constructor({ code, url }: DownloadErrorOptions, ...params: any[]) {
+  constructor(
+    { code, url, diagnostics }: DownloadErrorOptions,
+    ...params: any[]
+  ) {
     super(...params);
     Object.setPrototypeOf(this, DownloadError.prototype);
 
@@ -102,47 +443,186 @@ export class DownloadError extends Error {
     this.name = 'DownloadError';
     this.code = code;
     this.url = url;
+    if (diagnostics) {
+      this.diagnostics = diagnostics;
+    }
+  }
+}
+
+// Adds the given diagnostics to an error (if it is a DownloadError) without
+// overwriting any diagnostics it already has.
+function addDiagnostics(e: unknown, diagnostics: DownloadErrorDiagnostics) {
+  if (e instanceof DownloadError) {
+    e.diagnostics = { ...diagnostics, ...e.diagnostics };
   }
 }
 
+function getResponseDiagnostics(response: Response): DownloadErrorDiagnostics {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+  return { status: response.status, headers };
+}
+
+function toVersion({ major, minor, patch }: Version): Version {
+  return { major, minor, patch };
+}
+
 export async function hasLanguage({
   baseUrl = DEFAULT_BASE_URL,
+  fileNaming = {},
   series,
   majorVersion,
   lang,
   signal,
+  transport = {},
+  versionFileCache = {},
+  forceFetch = false,
 }: {
   baseUrl?: string;
+  fileNaming?: FileNaming;
   series: DataSeries;
   majorVersion: number;
   lang: string;
   signal?: AbortSignal;
+  transport?: TransportOptions;
+  versionFileCache?: VersionFileCacheOptions;
+  // If true, check for a new version file even if the cached one has not
+  // expired yet.
+  forceFetch?: boolean;
 }): Promise<boolean> {
   try {
     await getVersionInfo({
       baseUrl,
+      fileNaming,
       series,
       majorVersion,
       lang,
       signal,
+      transport,
+      versionFileCache,
+      forceFetch,
     });
     return true;
   } catch (e) {
-    return false;
+    // Only report the language as unavailable if we know it is not offered,
+    // not if we simply failed to find out (e.g. due to a network error).
+    if (isLanguageNotOfferedError(e)) {
+      return false;
+    }
+    throw e;
+  }
+}
+
+// Returns true if `e` indicates that the data for a language is not offered
+// (as opposed to us failing to check, e.g. due to a network error).
+function isLanguageNotOfferedError(e: unknown): boolean {
+  return (
+    e instanceof DownloadError &&
+    (e.code === DownloadErrorCode.VersionFileNotFound ||
+      e.code === DownloadErrorCode.VersionFileInvalid ||
+      e.code === DownloadErrorCode.MajorVersionNotFound)
+  );
+}
+
+// Information about the data offered for a series in a given language.
+export type LanguageInfo = {
+  lang: string;
+  major: number;
+  minor: number;
+  patch: number;
+  databaseVersion?: string;
+  dateOfCreation: string;
+  // The approximate size in bytes of downloading the data in full, if known
+  size?: number;
+};
+
+// Returns information about the data offered for the given series and
+// language, or null if it is not offered.
+//
+// As with hasLanguage, errors other than the data not being offered (e.g.
+// network errors) are reported.
+export async function getLanguageInfo({
+  baseUrl = DEFAULT_BASE_URL,
+  fileNaming = {},
+  series,
+  majorVersion,
+  lang,
+  signal,
+  transport = {},
+  versionFileCache = {},
+}: {
+  baseUrl?: string;
+  fileNaming?: FileNaming;
+  series: DataSeries;
+  majorVersion: number;
+  lang: string;
+  signal?: AbortSignal;
+  transport?: TransportOptions;
+  versionFileCache?: VersionFileCacheOptions;
+}): Promise<LanguageInfo | null> {
+  let versionInfo: VersionInfo;
+  try {
+    versionInfo = await getVersionInfo({
+      baseUrl,
+      fileNaming,
+      series,
+      majorVersion,
+      lang,
+      signal,
+      transport,
+      versionFileCache,
+    });
+  } catch (e) {
+    if (isLanguageNotOfferedError(e)) {
+      return null;
+    }
+    throw e;
+  }
+
+  const info: LanguageInfo = {
+    lang,
+    ...toVersion(versionInfo),
+    dateOfCreation: versionInfo.dateOfCreation,
+  };
+  if (versionInfo.databaseVersion) {
+    info.databaseVersion = versionInfo.databaseVersion;
+  }
+
+  const files = planDownload({
+    versionInfo,
+    maxPatches: DEFAULT_MAX_PATCHES,
+  });
+  if (files.every((file) => typeof file.size === 'number')) {
+    info.size = files.reduce((total, file) => total + file.size!, 0);
   }
+
+  return info;
 }
 
 export async function* download<EntryLine, DeletionLine>({
   baseUrl = DEFAULT_BASE_URL,
+  fileNaming = {},
   series,
   majorVersion,
   currentVersion,
   lang,
   signal,
   maxProgressResolution = DEFAULT_MAX_PROGRESS_RESOLUTION,
+  maxResumeAttempts = DEFAULT_MAX_RESUME_ATTEMPTS,
+  resumeDelay = DEFAULT_RESUME_DELAY_MS,
+  maxPatches = DEFAULT_MAX_PATCHES,
+  prefetch,
+  compression,
+  decompress = defaultDecompress,
+  transport = {},
+  versionFileCache = {},
   forceFetch = false,
+  invalidRecords = 'reject',
   isEntryLine,
   isDeletionLine,
+  validateEntryLine,
 }: DownloadOptions<EntryLine, DeletionLine>): AsyncIterableIterator<
   DownloadEvent<EntryLine, DeletionLine>
 > {
@@ -150,8 +630,11 @@ export async function* download<EntryLine, DeletionLine>({
     series,
     majorVersion,
     baseUrl,
+    fileNaming,
     lang,
     signal,
+    transport,
+    versionFileCache,
     forceFetch,
   });
 
@@ -162,56 +645,371 @@ export async function* download<EntryLine, DeletionLine>({
   // cache" ticked) and then try again to fetch the file but get the older
   // version.
   if (currentVersion && compareVersions(currentVersion, versionInfo) > 0) {
-    const versionToString = ({ major, minor, patch }: Version) =>
-      `${major}.${minor}.${patch}`;
     throw new DownloadError(
-      { code: DownloadErrorCode.DatabaseTooOld },
+      {
+        code: DownloadErrorCode.DatabaseTooOld,
+        diagnostics: {
+          expectedVersion: toVersion(currentVersion),
+          actualVersion: toVersion(versionInfo),
+        },
+      },
       `Database version (${versionToString(
         versionInfo
       )}) older than current version (${versionToString(currentVersion)})`
     );
   }
 
+  const files = planDownload({ versionInfo, currentVersion, maxPatches });
+  if (!files.length) {
+    return;
+  }
+
+  const planEvent: PlanEvent = { type: 'plan', files };
+  yield planEvent;
+
+  const fileInfo = files.map((file) => {
+    const version = { major: file.major, minor: file.minor, patch: file.patch };
+    const snapshot = !!file.snapshot;
+    const { from } = file;
+    return {
+      url: getDatabaseFileUrl({
+        baseUrl,
+        fileNaming,
+        series,
+        lang,
+        version,
+        snapshot,
+        from,
+        compression,
+      }),
+      version,
+      snapshot,
+      from,
+      sha256: snapshot
+        ? versionInfo.snapshot!.sha256
+        : from
+        ? versionInfo.bridges![versionToString(from)].sha256
+        : versionInfo.sha256?.[file.patch],
+    };
+  });
+
+  // If prefetching is enabled, we start fetching the following files while
+  // we are still processing the current one so that they are ready by the time
+  // the caller has finished applying the current one.
+  //
+  // We limit the amount each prefetched file can buffer so that the memory
+  // used is bounded.
+  const prefetchConcurrency = prefetch?.concurrency || 0;
+  const maxBytesPerFile = Math.max(
+    Math.floor(
+      (prefetch?.maxBytes ?? DEFAULT_MAX_PREFETCH_BYTES) /
+        Math.max(prefetchConcurrency, 1)
+    ),
+    1
+  );
+  const prefetchedResponses: Array<Promise<Response> | undefined> = [];
+
+  try {
+    for (const [
+      index,
+      { url, version, snapshot, from, sha256 },
+    ] of fileInfo.entries()) {
+      const lastToPrefetch = Math.min(
+        index + prefetchConcurrency,
+        fileInfo.length - 1
+      );
+      for (let i = index + 1; i <= lastToPrefetch; i++) {
+        if (prefetchedResponses[i]) {
+          continue;
+        }
+
+        const response = fetchDatabaseFile({
+          url: fileInfo[i].url,
+          signal,
+          transport,
+        }).then((response) =>
+          bufferResponse(response, {
+            maxBytes: maxBytesPerFile,
+            url: fileInfo[i].url,
+            signal,
+            timeout: transport.timeout,
+          })
+        );
+        // Avoid unhandled rejections in case we never get to this file.
+        response.catch(() => {});
+        prefetchedResponses[i] = response;
+      }
+
+      yield* getEvents({
+        url,
+        prefetchedResponse: prefetchedResponses[index],
+        maxProgressResolution,
+        maxResumeAttempts,
+        resumeDelay,
+        compression,
+        decompress,
+        transport,
+        version,
+        snapshot,
+        from,
+        sha256,
+        signal,
+        invalidRecords,
+        isEntryLine,
+        isDeletionLine,
+        validateEntryLine,
+      });
+      prefetchedResponses[index] = undefined;
+
+      yield { type: 'versionend' };
+    }
+  } finally {
+    // Stop buffering any files we prefetched but didn't get to
+    for (const response of prefetchedResponses) {
+      response?.then((response) => response.body?.cancel()).catch(() => {});
+    }
+  }
+}
+
+// Reads ahead from the body of the given response (buffering up to `maxBytes`
+// bytes at a time) so that it is ready by the time we come to process it.
+//
+// Reads are subject to the same timeout as when reading the body directly and
+// the underlying body is canceled if a read times out or `signal` is aborted.
+function bufferResponse(
+  response: Response,
+  {
+    maxBytes,
+    url,
+    signal,
+    timeout,
+  }: {
+    maxBytes: number;
+    url: string;
+    signal: AbortSignal;
+    timeout?: number;
+  }
+): Response {
+  const reader = response.body!.getReader();
+  const chunks: Array<Uint8Array> = [];
+  let bufferedBytes = 0;
+  let done = false;
+  let failed = false;
+  let error: unknown;
+  let canceled = false;
+
+  // Only one side is ever waiting at a time since the reading side waits while
+  // the buffer is full and the consuming side waits while it is empty.
+  let wake: (() => void) | undefined;
+  const wait = () =>
+    new Promise<void>((resolve) => {
+      wake = resolve;
+    });
+  const notify = () => {
+    const resolve = wake;
+    wake = undefined;
+    resolve?.();
+  };
+
+  const fail = (e: unknown) => {
+    if (!failed) {
+      failed = true;
+      error = e;
+    }
+    canceled = true;
+    reader.cancel().catch(() => {});
+    notify();
+  };
+  const onAbort = () => fail(new AbortError());
+  signal.addEventListener('abort', onAbort);
+
+  (async () => {
+    try {
+      while (true) {
+        while (bufferedBytes >= maxBytes && !canceled) {
+          await wait();
+        }
+        if (canceled) {
+          return;
+        }
+
+        const result = await waitWithTimeout(reader.read(), url, timeout);
+        if (canceled) {
+          return;
+        }
+        if (result.done) {
+          done = true;
+          break;
+        }
+
+        chunks.push(result.value);
+        bufferedBytes += result.value.length;
+        notify();
+      }
+      notify();
+    } catch (e) {
+      fail(e);
+    } finally {
+      signal.removeEventListener('abort', onAbort);
+    }
+  })();
+
+  if (signal.aborted) {
+    onAbort();
+  }
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (!chunks.length && !done && !failed) {
+        await wait();
+      }
+
+      if (chunks.length) {
+        const chunk = chunks.shift()!;
+        bufferedBytes -= chunk.length;
+        controller.enqueue(chunk);
+        notify();
+      } else if (failed) {
+        controller.error(error);
+      } else {
+        controller.close();
+      }
+    },
+    cancel(reason) {
+      canceled = true;
+      notify();
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+// Works out which files we need to download to update from `currentVersion` to
+// the version described by `versionInfo`.
+function planDownload({
+  versionInfo,
+  currentVersion,
+  maxPatches,
+}: {
+  versionInfo: VersionInfo;
+  currentVersion?: Version;
+  maxPatches: number;
+}): Array<PlannedFile> {
   let nextPatch: number;
+  let bridge: PlannedFile | undefined;
   if (
     !currentVersion ||
     // Check for a change in minor version
     compareVersions(currentVersion, { ...versionInfo, patch: 0 }) < 0
   ) {
-    nextPatch = 0;
+    bridge = getBridge({ versionInfo, currentVersion });
+    nextPatch = bridge ? 1 : 0;
   } else {
     nextPatch = currentVersion.patch + 1;
   }
 
-  while (nextPatch <= versionInfo.patch) {
-    yield* getEvents({
-      baseUrl,
-      series,
-      lang,
-      maxProgressResolution,
-      version: {
-        major: versionInfo.major,
-        minor: versionInfo.minor,
-        patch: nextPatch,
-      },
-      signal,
-      isEntryLine,
-      isDeletionLine,
-    });
+  const patches: Array<PlannedFile> = bridge ? [bridge] : [];
+  for (let patch = nextPatch; patch <= versionInfo.patch; patch++) {
+    const file: PlannedFile = {
+      major: versionInfo.major,
+      minor: versionInfo.minor,
+      patch,
+    };
+    const size = versionInfo.sizes?.[patch];
+    if (typeof size === 'number') {
+      file.size = size;
+    }
+    patches.push(file);
+  }
+
+  // If there is a full snapshot available, see if it would be quicker to
+  // download that instead.
+  //
+  // If we know all the sizes, we simply pick whichever is smaller. Otherwise we
+  // use the snapshot if there are too many patches to download.
+  if (!versionInfo.snapshot || patches.length < 2) {
+    return patches;
+  }
 
-    yield { type: 'versionend' };
+  const snapshotSize = versionInfo.snapshot.size;
+  const patchesSize = patches.every((file) => typeof file.size === 'number')
+    ? patches.reduce((total, file) => total + file.size!, 0)
+    : undefined;
+  const useSnapshot =
+    typeof snapshotSize === 'number' && typeof patchesSize === 'number'
+      ? snapshotSize < patchesSize
+      : patches.length > maxPatches;
+  if (!useSnapshot) {
+    return patches;
+  }
+
+  const snapshot: PlannedFile = {
+    major: versionInfo.major,
+    minor: versionInfo.minor,
+    patch: versionInfo.patch,
+    snapshot: true,
+  };
+  if (typeof snapshotSize === 'number') {
+    snapshot.size = snapshotSize;
+  }
+
+  return [snapshot];
+}
+
+// Returns the bridge, if any, for updating from `currentVersion` to the first
+// patch of the minor version described by `versionInfo`.
+function getBridge({
+  versionInfo,
+  currentVersion,
+}: {
+  versionInfo: VersionInfo;
+  currentVersion?: Version;
+}): PlannedFile | undefined {
+  if (!currentVersion || currentVersion.major !== versionInfo.major) {
+    return undefined;
+  }
+
+  const bridgeInfo = versionInfo.bridges?.[versionToString(currentVersion)];
+  if (!bridgeInfo) {
+    return undefined;
+  }
+
+  // If we know the size of both the bridge and the full file, only use the
+  // bridge if it is smaller.
+  const fullSize = versionInfo.sizes?.[0];
+  if (
+    typeof bridgeInfo.size === 'number' &&
+    typeof fullSize === 'number' &&
+    bridgeInfo.size >= fullSize
+  ) {
+    return undefined;
+  }
 
-    nextPatch++;
+  const bridge: PlannedFile = {
+    major: versionInfo.major,
+    minor: versionInfo.minor,
+    patch: 0,
+    from: toVersion(currentVersion),
+  };
+  if (typeof bridgeInfo.size === 'number') {
+    bridge.size = bridgeInfo.size;
   }
+
+  return bridge;
 }
 
-type Version = {
+export type Version = {
   major: number;
   minor: number;
   patch: number;
 };
 
-function compareVersions(a: Version, b: Version): number {
+export function compareVersions(a: Version, b: Version): number {
   if (a.major < b.major) {
     return -1;
   }
@@ -233,14 +1031,11 @@ function compareVersions(a: Version, b: Version): number {
   return 0;
 }
 
-let cachedVersionFile:
-  | {
-      contents: any;
-      lang: string;
-    }
-  | undefined;
-
-function waitWithTimeout<T>(promise: Promise<T>, url?: string): Promise<T> {
+function waitWithTimeout<T>(
+  promise: Promise<T>,
+  url?: string,
+  timeout: number = FETCH_TIMEOUT_MS
+): Promise<T> {
   let timeoutId: number;
 
   const timeoutPromise = new Promise((_, reject) => {
@@ -249,10 +1044,10 @@ function waitWithTimeout<T>(promise: Promise<T>, url?: string): Promise<T> {
       reject(
         new DownloadError(
           { code: DownloadErrorCode.Timeout, url },
-          `Download timed out after ${FETCH_TIMEOUT_MS / 1000} seconds.`
+          `Download timed out after ${timeout / 1000} seconds.`
         )
       );
-    }, FETCH_TIMEOUT_MS);
+    }, timeout);
   });
 
   return Promise.race([promise, timeoutPromise]).then((val: T) => {
@@ -261,62 +1056,70 @@ function waitWithTimeout<T>(promise: Promise<T>, url?: string): Promise<T> {
   });
 }
 
+function fetchWithTransport({
+  url,
+  signal,
+  headers,
+  transport,
+}: {
+  url: string;
+  signal?: AbortSignal;
+  headers?: Record<string, string>;
+  transport: TransportOptions;
+}): Promise<Response> {
+  const fetcher: Fetcher =
+    transport.fetcher || ((url, init) => fetch(url, init));
+
+  return waitWithTimeout(
+    fetcher(url, { signal, headers: { ...transport.headers, ...headers } }),
+    url,
+    transport.timeout
+  );
+}
+
 async function getVersionInfo({
   baseUrl,
+  fileNaming,
   majorVersion,
   series,
   lang,
   signal,
+  transport,
+  versionFileCache,
   forceFetch = false,
 }: {
   baseUrl: string;
+  fileNaming: FileNaming;
   majorVersion: number;
   series: string;
   lang: string;
   signal?: AbortSignal;
+  transport: TransportOptions;
+  versionFileCache: VersionFileCacheOptions;
   forceFetch?: boolean;
 }): Promise<VersionInfo> {
-  let versionInfo;
-
-  // Get the file if needed
-  if (forceFetch || !cachedVersionFile || cachedVersionFile.lang !== lang) {
-    const url = `${baseUrl}jpdict-rc-${lang}-version.json`;
+  const getVersionFileName = fileNaming.versionFile || defaultVersionFileName;
+  const url = `${baseUrl}${getVersionFileName({ lang })}`;
 
-    let response;
-    try {
-      response = await waitWithTimeout(fetch(url, { signal }), url);
-    } catch (e) {
-      if (e.name === 'AbortError' || e.name === 'DownloadError') {
-        throw e;
-      }
-
-      throw new DownloadError(
-        { code: DownloadErrorCode.VersionFileNotAccessible, url },
-        `Version file ${url} not accessible (${e.message})`
-      );
-    }
-
-    // Fetch rejects the promise for network errors, but not for HTTP errors :(
-    if (!response.ok) {
-      const code =
-        response.status === 404
-          ? DownloadErrorCode.VersionFileNotFound
-          : DownloadErrorCode.VersionFileNotAccessible;
-      throw new DownloadError(
-        { code, url },
-        `Version file ${url} not accessible (status: ${response.status})`
-      );
-    }
+  const { cache = defaultVersionFileCache, ttl = DEFAULT_VERSION_FILE_TTL_MS } =
+    versionFileCache;
+  const cachedVersionFile = await cache.get(url);
 
-    // Try to parse it
-    try {
-      versionInfo = await response.json();
-    } catch (e) {
-      throw new DownloadError(
-        { code: DownloadErrorCode.VersionFileInvalid, url },
-        `Invalid version object: ${e.message}`
-      );
-    }
+  // Get the file if needed
+  let versionInfo;
+  let updatedVersionFile: CachedVersionFile | undefined;
+  if (
+    forceFetch ||
+    !cachedVersionFile ||
+    Date.now() - cachedVersionFile.fetched >= ttl
+  ) {
+    updatedVersionFile = await fetchVersionFile({
+      url,
+      signal,
+      transport,
+      cachedVersionFile,
+    });
+    versionInfo = updatedVersionFile.contents;
   } else {
     versionInfo = cachedVersionFile.contents;
   }
@@ -335,26 +1138,92 @@ async function getVersionInfo({
   }
 
   // Cache the file contents
-  cachedVersionFile = {
-    contents: versionInfo,
-    lang,
-  };
+  if (updatedVersionFile) {
+    await cache.set(url, updatedVersionFile);
+  }
 
   return dbVersionInfo;
 }
 
-function getCurrentVersionInfo(
-  a: any,
-  series: string,
-  majorVersion: number
-): VersionInfo | null {
-  if (!a || typeof a !== 'object') {
-    return null;
+async function fetchVersionFile({
+  url,
+  signal,
+  transport,
+  cachedVersionFile,
+}: {
+  url: string;
+  signal?: AbortSignal;
+  transport: TransportOptions;
+  cachedVersionFile?: CachedVersionFile;
+}): Promise<CachedVersionFile> {
+  // If we have a cached copy, check if it is still current
+  const headers: Record<string, string> = {};
+  if (cachedVersionFile?.etag) {
+    headers['If-None-Match'] = cachedVersionFile.etag;
   }
 
-  if (typeof a[series] !== 'object' || a[series] === null) {
-    return null;
-  }
+  let response;
+  try {
+    response = await fetchWithTransport({ url, signal, headers, transport });
+  } catch (e) {
+    if (e.name === 'AbortError' || e.name === 'DownloadError') {
+      throw e;
+    }
+
+    throw new DownloadError(
+      { code: DownloadErrorCode.VersionFileNotAccessible, url },
+      `Version file ${url} not accessible (${e.message})`
+    );
+  }
+
+  if (response.status === 304 && cachedVersionFile) {
+    return { ...cachedVersionFile, fetched: Date.now() };
+  }
+
+  // Fetch rejects the promise for network errors, but not for HTTP errors :(
+  if (!response.ok) {
+    const code =
+      response.status === 404
+        ? DownloadErrorCode.VersionFileNotFound
+        : DownloadErrorCode.VersionFileNotAccessible;
+    throw new DownloadError(
+      { code, url, diagnostics: getResponseDiagnostics(response) },
+      `Version file ${url} not accessible (status: ${response.status})`
+    );
+  }
+
+  // Try to parse it
+  let contents;
+  try {
+    contents = await response.json();
+  } catch (e) {
+    throw new DownloadError(
+      { code: DownloadErrorCode.VersionFileInvalid, url },
+      `Invalid version object: ${e.message}`
+    );
+  }
+
+  const result: CachedVersionFile = { contents, fetched: Date.now() };
+  const etag = response.headers.get('ETag');
+  if (etag) {
+    result.etag = etag;
+  }
+
+  return result;
+}
+
+function getCurrentVersionInfo(
+  a: any,
+  series: string,
+  majorVersion: number
+): VersionInfo | null {
+  if (!a || typeof a !== 'object') {
+    return null;
+  }
+
+  if (typeof a[series] !== 'object' || a[series] === null) {
+    return null;
+  }
 
   if (
     typeof a[series][majorVersion] !== 'object' ||
@@ -372,7 +1241,11 @@ function getCurrentVersionInfo(
     typeof a[series][majorVersion].patch !== 'number' ||
     (typeof a[series][majorVersion].databaseVersion !== 'string' &&
       typeof a[series][majorVersion].databaseVersion !== 'undefined') ||
-    typeof a[series][majorVersion].dateOfCreation !== 'string'
+    typeof a[series][majorVersion].dateOfCreation !== 'string' ||
+    !isValidChecksumMap(a[series][majorVersion].sha256) ||
+    !isValidSizeMap(a[series][majorVersion].sizes) ||
+    !isValidFileInfo(a[series][majorVersion].snapshot) ||
+    !isValidBridgeMap(a[series][majorVersion].bridges)
   ) {
     return null;
   }
@@ -391,10 +1264,70 @@ function getCurrentVersionInfo(
   return versionInfo;
 }
 
-type HeaderLine = {
+function isValidChecksumMap(a: any): boolean {
+  if (typeof a === 'undefined') {
+    return true;
+  }
+
+  return (
+    typeof a === 'object' &&
+    a !== null &&
+    Object.values(a).every(isValidChecksum)
+  );
+}
+
+function isValidChecksum(a: any): boolean {
+  return typeof a === 'string' && /^[0-9a-f]{64}$/i.test(a);
+}
+
+function isValidSizeMap(a: any): boolean {
+  if (typeof a === 'undefined') {
+    return true;
+  }
+
+  return (
+    typeof a === 'object' &&
+    a !== null &&
+    Object.values(a).every((value) => typeof value === 'number' && value >= 0)
+  );
+}
+
+function isValidBridgeMap(a: any): boolean {
+  if (typeof a === 'undefined') {
+    return true;
+  }
+
+  return (
+    typeof a === 'object' &&
+    a !== null &&
+    Object.keys(a).every((key) => /^\d+\.\d+\.\d+$/.test(key)) &&
+    Object.values(a).every(
+      (value) => typeof value !== 'undefined' && isValidFileInfo(value)
+    )
+  );
+}
+
+function isValidFileInfo(a: any): boolean {
+  if (typeof a === 'undefined') {
+    return true;
+  }
+
+  return (
+    typeof a === 'object' &&
+    a !== null &&
+    (typeof a.size === 'undefined' ||
+      (typeof a.size === 'number' && a.size >= 0)) &&
+    (typeof a.sha256 === 'undefined' || isValidChecksum(a.sha256))
+  );
+}
+
+export type HeaderLine = {
   type: 'header';
-  version: Omit<DataVersion, 'lang'>;
+  version: Omit<DataVersion, 'lang' | 'source' | 'quarantined'>;
   records: number;
+  snapshot?: boolean;
+  // Set for bridge files (see VersionEvent)
+  from?: Version;
 };
 
 function isHeaderLine(a: any): a is HeaderLine {
@@ -410,74 +1343,224 @@ function isHeaderLine(a: any): a is HeaderLine {
     (typeof a.version.databaseVersion === 'string' ||
       typeof a.version.databaseVersion === 'undefined') &&
     typeof a.version.dateOfCreation === 'string' &&
-    typeof a.records === 'number'
+    typeof a.records === 'number' &&
+    (typeof a.snapshot === 'boolean' || typeof a.snapshot === 'undefined') &&
+    (typeof a.from === 'undefined' || isVersion(a.from))
   );
 }
 
-async function* getEvents<EntryLine, DeletionLine>({
-  baseUrl,
-  series,
-  lang,
-  maxProgressResolution,
-  version,
+function isVersion(a: any): a is Version {
+  return (
+    typeof a === 'object' &&
+    a !== null &&
+    typeof a.major === 'number' &&
+    typeof a.minor === 'number' &&
+    typeof a.patch === 'number'
+  );
+}
+
+// Produces DownloadEvents from a local copy of a database file (e.g. one
+// bundled with an installer).
+//
+// Unlike `download`, this only ever reads a single file and, since we don't
+// know in advance which version the file contains, we simply check that it can
+// be applied on top of the current version (if any).
+export async function* readDatabaseFile<EntryLine, DeletionLine>({
+  stream,
+  majorVersion,
+  currentVersion,
+  allowDowngrade = false,
   signal,
+  maxProgressResolution = DEFAULT_MAX_PROGRESS_RESOLUTION,
+  invalidRecords = 'reject',
   isEntryLine,
   isDeletionLine,
+  validateEntryLine,
 }: {
-  baseUrl: string;
-  series: DataSeries;
-  lang: string;
-  maxProgressResolution: number;
-  version: Version;
+  stream: ReadableStream<Uint8Array>;
+  majorVersion: number;
+  currentVersion?: Version;
+  // If true, allow replacing the current data with an older full file or
+  // snapshot. Otherwise, such files are rejected as for `download`.
+  allowDowngrade?: boolean;
   signal: AbortSignal;
+  maxProgressResolution?: number;
+  invalidRecords?: InvalidRecordPolicy;
   isEntryLine: (a: any) => a is EntryLine;
   isDeletionLine: (a: any) => a is DeletionLine;
+  validateEntryLine?: (a: any) => Array<ValidationFailure>;
 }): AsyncIterableIterator<DownloadEvent<EntryLine, DeletionLine>> {
-  const url = `${baseUrl}${series}-rc-${lang}-${version.major}.${version.minor}.${version.patch}.ljson`;
+  let headerRead = false;
 
-  // Fetch rejects the promise for network errors, but not for HTTP errors :(
-  let response;
+  const processLine = getLineProcessor({
+    checkVersion: (fileVersion, snapshot, from) => {
+      if (fileVersion.major !== majorVersion) {
+        throw new DownloadError(
+          {
+            code: DownloadErrorCode.DatabaseFileVersionMismatch,
+            diagnostics: { actualVersion: toVersion(fileVersion) },
+          },
+          `Got mismatched major version (Expected: ${majorVersion} got: ${fileVersion.major})`
+        );
+      }
+
+      // Don't silently replace the current data with older data (e.g. from an
+      // outdated installer).
+      if (
+        !allowDowngrade &&
+        currentVersion &&
+        compareVersions(currentVersion, fileVersion) > 0
+      ) {
+        throw new DownloadError(
+          {
+            code: DownloadErrorCode.DatabaseTooOld,
+            diagnostics: {
+              expectedVersion: toVersion(currentVersion),
+              actualVersion: toVersion(fileVersion),
+            },
+          },
+          `Database version (${versionToString(
+            fileVersion
+          )}) older than current version (${versionToString(currentVersion)})`
+        );
+      }
+
+      // A bridge can only be applied to the version it is from.
+      if (
+        from &&
+        !snapshot &&
+        (!currentVersion || compareVersions(currentVersion, from) !== 0)
+      ) {
+        throw new DownloadError(
+          {
+            code: DownloadErrorCode.DatabaseFileVersionMismatch,
+            diagnostics: {
+              expectedVersion: toVersion(from),
+              actualVersion: currentVersion
+                ? toVersion(currentVersion)
+                : undefined,
+            },
+          },
+          `Bridge ${JSON.stringify(fileVersion)} from ${versionToString(
+            from
+          )} cannot be applied to current version ${JSON.stringify(
+            currentVersion
+          )}`
+        );
+      }
+
+      // A full snapshot can always be applied, but a patch can only be applied
+      // to the version immediately before it.
+      if (
+        fileVersion.patch !== 0 &&
+        !snapshot &&
+        (!currentVersion ||
+          compareVersions(currentVersion, {
+            ...fileVersion,
+            patch: fileVersion.patch - 1,
+          }) !== 0)
+      ) {
+        throw new DownloadError(
+          {
+            code: DownloadErrorCode.DatabaseFileVersionMismatch,
+            diagnostics: {
+              expectedVersion: currentVersion
+                ? {
+                    ...toVersion(currentVersion),
+                    patch: currentVersion.patch + 1,
+                  }
+                : undefined,
+              actualVersion: toVersion(fileVersion),
+            },
+          },
+          `Patch ${JSON.stringify(
+            fileVersion
+          )} cannot be applied to current version ${JSON.stringify(
+            currentVersion
+          )}`
+        );
+      }
+
+      headerRead = true;
+    },
+    maxProgressResolution,
+    invalidRecords,
+    isEntryLine,
+    isDeletionLine,
+    validateEntryLine,
+  });
+
+  let bytesRead = 0;
+  let linesRead = 0;
   try {
-    response = await waitWithTimeout(fetch(url, { signal }), url);
-  } catch (e) {
-    if (e.name === 'AbortError' || e.name === 'DownloadError') {
-      throw e;
+    for await (const { line, end } of ljsonStreamIterator({ stream, signal })) {
+      const events = processLine(line);
+      bytesRead = end;
+      linesRead++;
+      yield* events;
     }
-
-    throw new DownloadError(
-      { code: DownloadErrorCode.DatabaseFileNotFound, url },
-      `Database file ${url} not accessible (${e.message})`
-    );
+  } catch (e) {
+    addDiagnostics(e, { byteOffset: bytesRead, lineNumber: linesRead + 1 });
+    throw e;
   }
 
-  if (!response.ok) {
-    const code =
-      response.status === 404
-        ? DownloadErrorCode.DatabaseFileNotFound
-        : DownloadErrorCode.DatabaseFileNotAccessible;
+  if (!headerRead) {
     throw new DownloadError(
-      { code, url },
-      `Database file ${url} not accessible (status: ${response.status})`
+      { code: DownloadErrorCode.DatabaseFileHeaderMissing },
+      'Database file is empty'
     );
   }
 
-  if (response.body === null) {
-    throw new DownloadError(
-      { code: DownloadErrorCode.DatabaseFileNotAccessible, url },
-      'Body is null'
-    );
-  }
+  yield { type: 'versionend' };
+}
 
+// Returns a function that converts each line of a database file into the
+// corresponding DownloadEvents, checking the header and records as it goes.
+function getLineProcessor<EntryLine, DeletionLine>({
+  url,
+  checkVersion,
+  snapshot = false,
+  from,
+  hasChecksum = false,
+  maxProgressResolution,
+  getByteProgress,
+  invalidRecords,
+  isEntryLine,
+  isDeletionLine,
+  validateEntryLine,
+}: {
+  url?: string;
+  // Should throw if the version in the file header is not acceptable
+  checkVersion: (
+    version: HeaderLine['version'],
+    snapshot: boolean,
+    from: Version | undefined
+  ) => void;
+  // True if the file should be treated as a full snapshot regardless of what
+  // the header says
+  snapshot?: boolean;
+  // The version the file is a bridge from, if we already know it is one
+  from?: Version;
+  // True if the file will be checked against a checksum once it has been read
+  hasChecksum?: boolean;
+  maxProgressResolution: number;
+  getByteProgress?: () => ByteProgress;
+  invalidRecords: InvalidRecordPolicy;
+  isEntryLine: (a: any) => a is EntryLine;
+  isDeletionLine: (a: any) => a is DeletionLine;
+  validateEntryLine?: (a: any) => Array<ValidationFailure>;
+}): (line: any) => Array<DownloadEvent<EntryLine, DeletionLine>> {
   let headerRead = false;
+  let linesRead = 0;
   let lastProgressPercent = 0;
+  let lastBytesPercent = 0;
   let recordsRead = 0;
   let totalRecords = 0;
 
-  for await (const line of ljsonStreamIterator({
-    stream: response.body,
-    signal,
-    url,
-  })) {
+  return (line: any) => {
+    const events: Array<DownloadEvent<EntryLine, DeletionLine>> = [];
+    linesRead++;
+
     if (isHeaderLine(line)) {
       if (headerRead) {
         throw new DownloadError(
@@ -486,20 +1569,22 @@ async function* getEvents<EntryLine, DeletionLine>({
         );
       }
 
-      if (compareVersions(line.version, version) !== 0) {
-        throw new DownloadError(
-          { code: DownloadErrorCode.DatabaseFileVersionMismatch, url },
-          `Got mismatched database versions (Expected: ${JSON.stringify(
-            version
-          )} got: ${JSON.stringify(line.version)})`
-        );
-      }
+      const fileFrom = from || line.from;
+      checkVersion(line.version, !!line.snapshot, fileFrom);
 
       const versionEvent: VersionEvent = {
         ...line.version,
         type: 'version',
       };
-      yield versionEvent;
+      if (line.snapshot || snapshot) {
+        versionEvent.snapshot = true;
+      } else if (fileFrom) {
+        versionEvent.from = toVersion(fileFrom);
+      }
+      if (hasChecksum) {
+        versionEvent.hasChecksum = true;
+      }
+      events.push(versionEvent);
 
       totalRecords = line.records;
       headerRead = true;
@@ -518,15 +1603,29 @@ async function* getEvents<EntryLine, DeletionLine>({
           type: 'entry',
           ...line,
         };
-        yield entryEvent;
+        events.push(entryEvent);
       } else if (isDeletionLine(line)) {
         const deletionEvent: DeletionEvent<DeletionLine> = {
           type: 'deletion',
           ...line,
         };
-        yield deletionEvent;
+        events.push(deletionEvent);
+      } else if (invalidRecords === 'quarantine') {
+        // The caller has explicitly opted in to skipping unrecognized
+        // records. It is up to them to record the fact that the resulting
+        // data is incomplete.
+        const record: QuarantinedRecord = {
+          lineNumber: linesRead,
+          line: JSON.stringify(line),
+        };
+        const field = validateEntryLine?.(line)[0]?.path;
+        if (field) {
+          record.field = field;
+        }
+        events.push({ type: 'quarantine', record });
       } else {
-        // If we encounter anything unexpected we should fail.
+        // If we encounter anything unexpected we should fail (unless the
+        // caller has asked otherwise).
         //
         // It might be tempting to make this "robust" by ignoring unrecognized
         // inputs but that could effectively leave us in an invalid state where
@@ -535,37 +1634,623 @@ async function* getEvents<EntryLine, DeletionLine>({
         //
         // If anything unexpected shows up we should fail so we can debug
         // exactly what happenned.
+        const validationFailures = validateEntryLine?.(line);
         throw new DownloadError(
-          { code: DownloadErrorCode.DatabaseFileInvalidRecord, url },
-          `Got unexpected record: ${JSON.stringify(line)}`
+          {
+            code: DownloadErrorCode.DatabaseFileInvalidRecord,
+            url,
+            diagnostics: validationFailures?.length
+              ? { validationFailures }
+              : undefined,
+          },
+          `Got unexpected record: ${JSON.stringify(line)}${
+            validationFailures?.length
+              ? ` (${validationFailures
+                  .map(formatValidationFailure)
+                  .join('; ')})`
+              : ''
+          }`
         );
       }
     }
 
     // Dispatch a new ProgressEvent if we have passed the appropriate threshold
+    // either in terms of records or bytes.
+    const byteProgress = getByteProgress?.();
+    const bytesPercent =
+      byteProgress?.bytesTotal &&
+      byteProgress.bytesLoaded! / byteProgress.bytesTotal;
     if (
-      totalRecords &&
-      recordsRead / totalRecords - lastProgressPercent > maxProgressResolution
+      (totalRecords &&
+        recordsRead / totalRecords - lastProgressPercent >
+          maxProgressResolution) ||
+      (bytesPercent && bytesPercent - lastBytesPercent > maxProgressResolution)
     ) {
-      lastProgressPercent = recordsRead / totalRecords;
-      yield { type: 'progress', loaded: recordsRead, total: totalRecords };
+      if (totalRecords) {
+        lastProgressPercent = recordsRead / totalRecords;
+      }
+      if (bytesPercent) {
+        lastBytesPercent = bytesPercent;
+      }
+      events.push({
+        type: 'progress',
+        loaded: recordsRead,
+        total: totalRecords,
+        ...byteProgress,
+      });
+    }
+
+    return events;
+  };
+}
+
+function getDatabaseFileUrl({
+  baseUrl,
+  fileNaming,
+  series,
+  lang,
+  version,
+  snapshot,
+  from,
+  compression,
+}: {
+  baseUrl: string;
+  fileNaming: FileNaming;
+  series: DataSeries;
+  lang: string;
+  version: Version;
+  snapshot: boolean;
+  from?: Version;
+  compression?: CompressionFormat;
+}): string {
+  const fileName = from
+    ? (fileNaming.bridgeFile || defaultBridgeFileName)({
+        series,
+        lang,
+        version,
+        from,
+      })
+    : (snapshot
+        ? fileNaming.snapshotFile || defaultSnapshotFileName
+        : fileNaming.databaseFile || defaultDatabaseFileName)({
+        series,
+        lang,
+        version,
+      });
+  return `${baseUrl}${fileName}${
+    compression ? COMPRESSION_EXTENSIONS[compression] : ''
+  }`;
+}
+
+async function* getEvents<EntryLine, DeletionLine>({
+  url,
+  prefetchedResponse,
+  maxProgressResolution,
+  maxResumeAttempts,
+  resumeDelay,
+  compression,
+  decompress,
+  transport,
+  version,
+  snapshot,
+  from,
+  sha256,
+  signal,
+  invalidRecords,
+  isEntryLine,
+  isDeletionLine,
+  validateEntryLine,
+}: {
+  url: string;
+  // The response for the file if we have already started fetching it
+  prefetchedResponse?: Promise<Response>;
+  maxProgressResolution: number;
+  maxResumeAttempts: number;
+  resumeDelay: number;
+  compression?: CompressionFormat;
+  decompress: Decompressor;
+  transport: TransportOptions;
+  version: Version;
+  snapshot: boolean;
+  from?: Version;
+  sha256?: string;
+  signal: AbortSignal;
+  invalidRecords: InvalidRecordPolicy;
+  isEntryLine: (a: any) => a is EntryLine;
+  isDeletionLine: (a: any) => a is DeletionLine;
+  validateEntryLine?: (a: any) => Array<ValidationFailure>;
+}): AsyncIterableIterator<DownloadEvent<EntryLine, DeletionLine>> {
+  let response = await (prefetchedResponse ||
+    fetchDatabaseFile({ url, signal, transport }));
+
+  // If the connection drops part-way through the file, we try to pick up from
+  // where we left off using a Range request.
+  //
+  // In order to do that safely we need some way of identifying the revision
+  // of the file we have been reading so that we never splice two different
+  // revisions of the file together.
+  //
+  // We can't resume compressed files, however, since the byte offsets we track
+  // are offsets into the decompressed data.
+  const validator = compression ? null : getValidator(response);
+
+  const byteProgress = getByteProgressTracker();
+
+  const processLine = getLineProcessor({
+    url,
+    checkVersion: (fileVersion) => {
+      if (compareVersions(fileVersion, version) !== 0) {
+        throw new DownloadError(
+          {
+            code: DownloadErrorCode.DatabaseFileVersionMismatch,
+            url,
+            diagnostics: {
+              expectedVersion: toVersion(version),
+              actualVersion: toVersion(fileVersion),
+            },
+          },
+          `Got mismatched database versions (Expected: ${JSON.stringify(
+            version
+          )} got: ${JSON.stringify(fileVersion)})`
+        );
+      }
+    },
+    snapshot,
+    from,
+    hasChecksum: !!sha256,
+    maxProgressResolution,
+    getByteProgress: () => byteProgress.get(),
+    invalidRecords,
+    isEntryLine,
+    isDeletionLine,
+    validateEntryLine,
+  });
+
+  // If we have a checksum for the file, we hash its contents as we go so we
+  // can check them once we reach the end.
+  const fileHasher = sha256 ? getFileHasher() : undefined;
+
+  // The offset in bytes of the end of the last complete line we processed and
+  // the number of lines processed so far.
+  let bytesRead = 0;
+  let linesRead = 0;
+  let resumeAttempts = 0;
+
+  // The offset of the start of the response body within the file and the
+  // offset up to which we should skip lines (in case we requested a range but
+  // got the whole file back).
+  let streamOffset = 0;
+  let skipTo = 0;
+
+  while (true) {
+    // Note that we measure byte progress using the bytes received over the
+    // network (i.e. before decompressing).
+    byteProgress.setTotal(getFileSize(response, streamOffset));
+    const body = countBytes(response.body!, (bytes) =>
+      byteProgress.update(streamOffset + bytes)
+    );
+
+    try {
+      for await (const { line, end } of ljsonStreamIterator({
+        stream: compression
+          ? decompressStream({
+              stream: body,
+              format: compression,
+              decompress,
+              url,
+            })
+          : body,
+        signal,
+        url,
+        timeout: transport.timeout,
+        offset: streamOffset,
+        skipTo,
+        onChunk: fileHasher?.add,
+      })) {
+        const events = processLine(line);
+        bytesRead = end;
+        linesRead++;
+        for (const event of events) {
+          if (signal.aborted) {
+            throw new AbortError();
+          }
+          yield event;
+        }
+      }
+
+      break;
+    } catch (e) {
+      if (
+        !isResumableError(e) ||
+        !validator ||
+        resumeAttempts >= maxResumeAttempts
+      ) {
+        addDiagnostics(e, {
+          byteOffset: bytesRead,
+          lineNumber: linesRead + 1,
+          attempt: resumeAttempts + 1,
+        });
+        throw e;
+      }
+    }
+
+    // Try to resume, re-trying the resume itself if it fails due to a network
+    // error.
+    let resumed = false;
+    let useRange = true;
+    while (!resumed) {
+      resumeAttempts++;
+      await waitBeforeResuming(
+        resumeDelay * Math.pow(2, resumeAttempts - 1),
+        signal
+      );
+
+      try {
+        response = await fetchDatabaseFile({
+          url,
+          signal,
+          transport,
+          headers: useRange
+            ? { Range: `bytes=${bytesRead}-`, 'If-Range': validator }
+            : undefined,
+        });
+        resumed = true;
+      } catch (e) {
+        // If the server won't give us the range (e.g. because the file is not
+        // in the cache we are talking to), asking again won't help so fetch
+        // the whole file instead and skip the part we have already read
+        // (below).
+        if (useRange && isRangeRejectedError(e)) {
+          useRange = false;
+          continue;
+        }
+
+        if (
+          e?.name !== 'DownloadError' ||
+          isRangeRejectedError(e) ||
+          resumeAttempts >= maxResumeAttempts
+        ) {
+          addDiagnostics(e, {
+            byteOffset: bytesRead,
+            attempt: resumeAttempts + 1,
+          });
+          throw e;
+        }
+      }
+    }
+
+    // Check we are still reading the same revision of the file
+    if (getValidator(response) !== validator) {
+      throw new DownloadError(
+        {
+          code: DownloadErrorCode.DatabaseFileChanged,
+          url,
+          diagnostics: {
+            ...getResponseDiagnostics(response),
+            byteOffset: bytesRead,
+            attempt: resumeAttempts + 1,
+          },
+        },
+        `Database file ${url} changed while downloading`
+      );
+    }
+
+    if (response.status === 206) {
+      streamOffset = bytesRead;
+      skipTo = 0;
+
+      const contentRange = response.headers.get('Content-Range');
+      if (contentRange && !contentRange.startsWith(`bytes ${bytesRead}-`)) {
+        throw new DownloadError(
+          {
+            code: DownloadErrorCode.DatabaseFileNotAccessible,
+            url,
+            diagnostics: {
+              ...getResponseDiagnostics(response),
+              byteOffset: bytesRead,
+              attempt: resumeAttempts + 1,
+            },
+          },
+          `Got unexpected range when resuming download: ${contentRange}`
+        );
+      }
+    } else {
+      // The server ignored the Range header but it's still the same file so we
+      // can just skip the part we already read.
+      streamOffset = 0;
+      skipTo = bytesRead;
+    }
+  }
+
+  // Check the file is intact before we let the caller commit it.
+  if (fileHasher) {
+    const actual = fileHasher.sha256();
+    if (actual !== sha256!.toLowerCase()) {
+      throw new DownloadError(
+        { code: DownloadErrorCode.DatabaseFileChecksumMismatch, url },
+        `Database file ${url} has an unexpected checksum (Expected: ${sha256} got: ${actual})`
+      );
     }
   }
 }
 
+function getByteProgressTracker() {
+  const startTime = Date.now();
+  let bytesLoaded = 0;
+  let bytesTotal: number | undefined;
+
+  return {
+    setTotal: (total: number | undefined) => {
+      // If a later response doesn't tell us the size, just stick with what we
+      // had.
+      if (typeof total !== 'undefined') {
+        bytesTotal = total;
+      }
+    },
+    update: (loaded: number) => {
+      // If we re-read part of the file after resuming (e.g. the server ignored
+      // our range request) don't report going backwards.
+      bytesLoaded = Math.max(bytesLoaded, loaded);
+    },
+    get: (): ByteProgress => {
+      const result: ByteProgress = { bytesLoaded };
+      if (typeof bytesTotal !== 'undefined') {
+        result.bytesTotal = bytesTotal;
+      }
+
+      const elapsedSeconds = (Date.now() - startTime) / 1000;
+      if (elapsedSeconds > 0 && bytesLoaded > 0) {
+        result.bytesPerSecond = bytesLoaded / elapsedSeconds;
+        if (typeof bytesTotal !== 'undefined') {
+          result.secondsRemaining =
+            Math.max(bytesTotal - bytesLoaded, 0) / result.bytesPerSecond;
+        }
+      }
+
+      return result;
+    },
+  };
+}
+
+// Returns the size in bytes of the whole file the response corresponds to, if
+// known.
+function getFileSize(response: Response, offset: number): number | undefined {
+  // If the response has been encoded in transit, the Content-Length won't
+  // match the number of bytes we get from the body.
+  if (response.headers.get('Content-Encoding')) {
+    return undefined;
+  }
+
+  if (response.status === 206) {
+    const contentRange = response.headers.get('Content-Range');
+    const matches = contentRange?.match(/\/(\d+)$/);
+    if (matches) {
+      return parseInt(matches[1], 10);
+    }
+  }
+
+  const contentLength = parseInt(
+    response.headers.get('Content-Length') || '',
+    10
+  );
+  return isNaN(contentLength) ? undefined : offset + contentLength;
+}
+
+// Passes through the given stream while reporting the number of bytes read so
+// far.
+function countBytes(
+  stream: ReadableStream<Uint8Array>,
+  onProgress: (bytes: number) => void
+): ReadableStream<Uint8Array> {
+  let bytes = 0;
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        bytes += chunk.length;
+        onProgress(bytes);
+        controller.enqueue(chunk);
+      },
+    })
+  );
+}
+
+// Calculates the checksum of a file as we read it.
+//
+// Since we might read (parts of) the file more than once when resuming
+// a download, chunks are passed along with their offset in the file and we
+// only hash the parts we haven't seen yet.
+function getFileHasher() {
+  const hash = createSha256();
+  let length = 0;
+
+  return {
+    add: (chunk: Uint8Array, offset: number) => {
+      if (offset > length || offset + chunk.length <= length) {
+        return;
+      }
+
+      const newPart = chunk.subarray(length - offset);
+      hash.update(newPart);
+      length += newPart.length;
+    },
+    sha256: (): string => hash.digest(),
+  };
+}
+
+async function fetchDatabaseFile({
+  url,
+  signal,
+  headers,
+  transport,
+}: {
+  url: string;
+  signal: AbortSignal;
+  headers?: Record<string, string>;
+  transport: TransportOptions;
+}): Promise<Response> {
+  // Fetch rejects the promise for network errors, but not for HTTP errors :(
+  let response;
+  try {
+    response = await fetchWithTransport({ url, signal, headers, transport });
+  } catch (e) {
+    if (e.name === 'AbortError' || e.name === 'DownloadError') {
+      throw e;
+    }
+
+    throw new DownloadError(
+      { code: DownloadErrorCode.DatabaseFileNotFound, url },
+      `Database file ${url} not accessible (${e.message})`
+    );
+  }
+
+  if (!response.ok) {
+    const code =
+      response.status === 404
+        ? DownloadErrorCode.DatabaseFileNotFound
+        : DownloadErrorCode.DatabaseFileNotAccessible;
+    throw new DownloadError(
+      { code, url, diagnostics: getResponseDiagnostics(response) },
+      `Database file ${url} not accessible (status: ${response.status})`
+    );
+  }
+
+  if (response.body === null) {
+    throw new DownloadError(
+      { code: DownloadErrorCode.DatabaseFileNotAccessible, url },
+      'Body is null'
+    );
+  }
+
+  return response;
+}
+
+const COMPRESSION_EXTENSIONS: { [format in CompressionFormat]: string } = {
+  gzip: '.gz',
+  br: '.br',
+};
+
+function decompressStream({
+  stream,
+  format,
+  decompress,
+  url,
+}: {
+  stream: ReadableStream<Uint8Array>;
+  format: CompressionFormat;
+  decompress: Decompressor;
+  url: string;
+}): ReadableStream<Uint8Array> {
+  try {
+    return decompress(stream, format);
+  } catch (e) {
+    throw new DownloadError(
+      { code: DownloadErrorCode.DecompressionNotSupported, url },
+      `Could not decompress ${format} data (${e?.message ?? String(e)})`
+    );
+  }
+}
+
+// The built-in decompressor using DecompressionStream.
+//
+// At the time of writing, only some browsers support DecompressionStream and
+// few, if any, support Brotli so clients that need Brotli support will need to
+// provide their own decompressor.
+function defaultDecompress(
+  stream: ReadableStream<Uint8Array>,
+  format: CompressionFormat
+): ReadableStream<Uint8Array> {
+  // DecompressionStream is not yet in the TypeScript DOM typings.
+  const DecompressionStream = (self as any).DecompressionStream as
+    | {
+        new (format: string): ReadableWritablePair<Uint8Array, Uint8Array>;
+      }
+    | undefined;
+  if (typeof DecompressionStream !== 'function') {
+    throw new Error('DecompressionStream is not available');
+  }
+
+  // DecompressionStream will throw a TypeError for unsupported formats.
+  return stream.pipeThrough(new DecompressionStream(format));
+}
+
+// Returns a value suitable for passing in an If-Range header, if any.
+function getValidator(response: Response): string | null {
+  // Weak ETags can't be used for range requests
+  const etag = response.headers.get('ETag');
+  if (etag && !etag.startsWith('W/')) {
+    return etag;
+  }
+
+  return response.headers.get('Last-Modified');
+}
+
+// Errors from a request for part of a file that mean we won't get that part
+// however many times we ask.
+function isRangeRejectedError(e: unknown): boolean {
+  const status = e instanceof DownloadError ? e.diagnostics?.status : undefined;
+  return status === 404 || status === 416;
+}
+
+function waitBeforeResuming(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new AbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new AbortError());
+    };
+    const timeoutId = self.setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Errors that occur while reading the response body that we can try to recover
+// from by resuming the download.
+function isResumableError(e: unknown): boolean {
+  return (
+    e instanceof DownloadError &&
+    (e.code === DownloadErrorCode.DatabaseFileNotAccessible ||
+      e.code === DownloadErrorCode.Timeout)
+  );
+}
+
+type LjsonLine = {
+  line: any;
+  // The offset in bytes of the end of the line (including any line terminator)
+  end: number;
+};
+
 async function* ljsonStreamIterator({
   stream,
   signal,
   url,
+  timeout,
+  offset = 0,
+  skipTo = 0,
+  onChunk,
 }: {
   stream: ReadableStream<Uint8Array>;
   signal: AbortSignal;
-  url: string;
-}): AsyncIterableIterator<object> {
+  url?: string;
+  timeout?: number;
+  // The offset in bytes within the file of the start of the stream
+  offset?: number;
+  // An offset up to which lines should be silently skipped
+  skipTo?: number;
+  // Called with each chunk of the (decompressed) file and its offset within
+  // the file
+  onChunk?: (chunk: Uint8Array, offset: number) => void;
+}): AsyncIterableIterator<LjsonLine> {
   const reader = stream.getReader();
-  const lineEnd = /\n|\r|\r\n/m;
   const decoder = new TextDecoder('utf-8');
   let buffer = '';
+  let position = offset;
 
   const parseLine = (line: string): any => {
     try {
@@ -583,10 +2268,33 @@ async function* ljsonStreamIterator({
     }
   };
 
+  // We split lines at the byte level (rather than after decoding) so that we
+  // can track the byte offset of each line. That's safe since '\n' can never
+  // appear as part of a multi-byte UTF-8 sequence.
+  //
+  // We still treat '\r' as a line separator too, however.
+  function* parseLines(text: string, end: number): IterableIterator<LjsonLine> {
+    if (end <= skipTo) {
+      return;
+    }
+
+    for (const line of text.split(/\r/)) {
+      if (signal.aborted) {
+        throw new AbortError();
+      }
+
+      if (!line) {
+        continue;
+      }
+
+      yield { line: parseLine(line), end };
+    }
+  }
+
   while (true) {
     let readResult: ReadableStreamDefaultReadResult<Uint8Array>;
     try {
-      readResult = await waitWithTimeout(reader.read(), url);
+      readResult = await waitWithTimeout(reader.read(), url, timeout);
     } catch (e) {
       try {
         reader.releaseLock();
@@ -603,36 +2311,35 @@ async function* ljsonStreamIterator({
       );
     }
 
-    const { done, value } = readResult;
-
-    if (done) {
+    if (readResult.done) {
       buffer += decoder.decode();
       if (buffer) {
-        yield parseLine(buffer);
+        yield* parseLines(buffer, position);
         buffer = '';
       }
 
       return;
     }
 
-    buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split(lineEnd);
+    const { value } = readResult;
+    onChunk?.(value, position);
+
+    let lineStart = 0;
+    let lineEnd: number;
+    while ((lineEnd = value.indexOf(0x0a, lineStart)) !== -1) {
+      buffer += decoder.decode(value.subarray(lineStart, lineEnd), {
+        stream: true,
+      });
+      const end = position + lineEnd + 1;
+      yield* parseLines(buffer, end);
+      buffer = '';
+      lineStart = lineEnd + 1;
+    }
 
     // We don't know if the last line is actually the last line of the
     // input or not until we get done: true so we just assume it is
     // a partial line for now.
-    buffer = lines.length ? lines.splice(lines.length - 1, 1)[0] : '';
-
-    for (const line of lines) {
-      if (signal.aborted) {
-        throw new AbortError();
-      }
-
-      if (!line) {
-        continue;
-      }
-
-      yield parseLine(line);
-    }
+    buffer += decoder.decode(value.subarray(lineStart), { stream: true });
+    position += value.length;
   }
 }
@@ -0,0 +1,134 @@
+import { DataSeries } from './data-series';
+import { DataVersion } from './data-version';
+import { HeaderLine } from './download';
+import {
+  fromKanjiRecord,
+  fromNameRecord,
+  fromRadicalRecord,
+  fromWordRecord,
+} from './records';
+import { JpdictSchema, JpdictStore } from './store';
+
+// Produces a stream of the records stored for the given series in the same
+// ljson format as the database files we download.
+//
+// The result is a full snapshot so, if the stored data has been patched, the
+// header is marked as such in order to distinguish it from a patch file.
+//
+// `onClose` is called once the stream has been read to the end, canceled, or
+// has failed.
+export function exportSeries({
+  store,
+  series,
+  version,
+  onClose,
+}: {
+  store: JpdictStore;
+  series: DataSeries;
+  version: DataVersion;
+  onClose?: () => void;
+}): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let lines: AsyncIterator<string> | undefined;
+
+  return new ReadableStream({
+    async pull(controller) {
+      if (!lines) {
+        lines = getLines({ store, series, version });
+      }
+
+      let result: IteratorResult<string>;
+      try {
+        result = await lines.next();
+      } catch (e) {
+        onClose?.();
+        throw e;
+      }
+
+      if (result.done) {
+        controller.close();
+        onClose?.();
+      } else {
+        controller.enqueue(encoder.encode(result.value));
+      }
+    },
+    async cancel() {
+      try {
+        await lines?.return?.();
+      } finally {
+        onClose?.();
+      }
+    },
+  });
+}
+
+async function* getLines({
+  store,
+  series,
+  version,
+}: {
+  store: JpdictStore;
+  series: DataSeries;
+  version: DataVersion;
+}): AsyncIterableIterator<string> {
+  const { lang, source, quarantined, ...headerVersion } = version;
+  const header: HeaderLine = {
+    type: 'header',
+    version: headerVersion,
+    records: await store.getRecordCount(series),
+  };
+  if (version.patch !== 0) {
+    header.snapshot = true;
+  }
+  yield JSON.stringify(header) + '\n';
+
+  switch (series) {
+    case 'words':
+      yield* getEntryLines({
+        store,
+        table: 'words',
+        fromRecord: fromWordRecord,
+      });
+      break;
+
+    case 'kanji':
+      yield* getEntryLines({
+        store,
+        table: 'kanji',
+        fromRecord: fromKanjiRecord,
+      });
+      break;
+
+    case 'radicals':
+      yield* getEntryLines({
+        store,
+        table: 'radicals',
+        fromRecord: fromRadicalRecord,
+      });
+      break;
+
+    case 'names':
+      yield* getEntryLines({
+        store,
+        table: 'names',
+        fromRecord: fromNameRecord,
+      });
+      break;
+  }
+}
+
+async function* getEntryLines<Name extends DataSeries, EntryLine>({
+  store,
+  table,
+  fromRecord,
+}: {
+  store: JpdictStore;
+  table: Name;
+  fromRecord: (record: JpdictSchema[Name]['value']) => EntryLine;
+}): AsyncIterableIterator<string> {
+  for await (const records of store.getRecordBatches(table)) {
+    yield records
+      .map((record) => JSON.stringify(fromRecord(record)) + '\n')
+      .join('');
+  }
+}
@@ -1,4 +1,4 @@
-import { MiscType, PartOfSpeech } from './words';
+import { isMiscType, isPartOfSpeech, MiscType, PartOfSpeech } from './words';
 import { WordResult } from './word-result';
 
 export interface PosGroup<Sense> {
@@ -7,6 +7,11 @@ export interface PosGroup<Sense> {
   senses: Array<Sense>;
 }
 
+// Groups senses by their part-of-speech (and hoists any common parts-of-speech
+// and misc tags to the group heading).
+//
+// Any tags we don't recognize (e.g. ones added upstream since this version was
+// released) are never used for grouping and are left on the individual senses.
 export function groupSenses<Sense extends WordResult['s'][0]>(
   senses: Array<Sense>
 ): Array<PosGroup<Sense>> {
@@ -22,12 +27,12 @@ export function groupSenses<Sense extends WordResult['s'][0]>(
     //    also has no POS.
     if (
       (previousPos && sense.pos && sense.pos.includes(previousPos)) ||
-      (!previousPos && groups.length && (!sense.pos || !sense.pos.length))
+      (!previousPos && groups.length && !sense.pos?.some(isPartOfSpeech))
     ) {
       groups[groups.length - 1].senses.push(dropPos(sense, previousPos));
     } else {
       // If there was no match, start a new group
-      const thisPos = sense.pos && sense.pos.length ? sense.pos[0] : undefined;
+      const thisPos = sense.pos?.find(isPartOfSpeech);
       const pos = thisPos ? [thisPos] : [];
       groups.push({ pos, misc: [], senses: [dropPos(sense, thisPos)] });
       previousPos = thisPos;
@@ -37,7 +42,7 @@ export function groupSenses<Sense extends WordResult['s'][0]>(
   // Having done the initial grouping, see if there are any additional POS that
   // are common to all senses that we can hoist to the group heading.
   for (const group of groups) {
-    let commonPos = group.senses[0].pos;
+    let commonPos = group.senses[0].pos?.filter(isPartOfSpeech);
     if (!commonPos) {
       continue;
     }
@@ -59,7 +64,7 @@ export function groupSenses<Sense extends WordResult['s'][0]>(
 
   // Hoist any common misc readings
   for (const group of groups) {
-    let commonMisc = group.senses[0].misc;
+    let commonMisc = group.senses[0].misc?.filter(isMiscType);
     if (!commonMisc) {
       continue;
     }
@@ -9,23 +9,50 @@ export {
 } from './data-series';
 export { DataVersion } from './data-version';
 export {
+  AvailableLanguages,
   ChangeCallback,
   ChangeTopic,
   DataSeriesState,
   JpdictDatabase,
+  JpdictDatabaseOptions,
+  UpdateAllResult,
 } from './database';
 export { JpdictFullTextDatabase } from './database-fulltext';
-export { DownloadError, DownloadErrorCode } from './download';
+export {
+  CompressionFormat,
+  Decompressor,
+  DownloadError,
+  DownloadErrorCode,
+  DownloadErrorDiagnostics,
+  Fetcher,
+  FileNaming,
+  InvalidRecordPolicy,
+  LanguageInfo,
+  PlannedFile,
+  PrefetchOptions,
+  QuarantinedRecord,
+  TransportOptions,
+  VersionFileCacheOptions,
+} from './download';
 export { groupSenses, PosGroup } from './grouping';
+export { ValidationFailure } from './validation';
 export { NameTranslation, NameType, allNameTypes, isNameType } from './names';
 export { UpdateErrorState, toUpdateErrorState } from './update-error-state';
 export {
   CheckingUpdateState,
   DownloadingUpdateState,
   IdleUpdateState,
+  MigratingUpdateState,
+  PausedUpdateState,
+  UpdatePlanProgress,
   UpdateState,
   UpdatingDbUpdateState,
 } from './update-state';
+export {
+  CachedVersionFile,
+  PersistentVersionFileCache,
+  VersionFileCache,
+} from './version-file-cache';
 export {
   cancelUpdateWithRetry,
   OfflineError,
@@ -54,6 +81,7 @@ export {
   MiscType,
   PartOfSpeech,
   ReadingInfo,
+  UnknownTagPolicy,
   allDialects,
   isDialect,
   allFieldTypes,
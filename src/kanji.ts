@@ -1,4 +1,17 @@
-import { isArrayOfStrings, isArrayOfStringsOrNumbers } from './utils';
+import {
+  absent,
+  arrayOfStrings,
+  nonEmptyString,
+  number,
+  string,
+  stringOrNumber,
+  object,
+  optional,
+  recordOf,
+  isValid,
+  validate,
+  ValidationFailure,
+} from './validation';
 
 export interface KanjiEntryLine {
   c: string;
@@ -51,48 +64,41 @@ export interface KanjiDeletionLine {
 // change the type of one of these fields we need to remember to update it here)
 // but for now being conservative seems like the best default option.
 
+const checkKanjiEntryLine = object({
+  c: nonEmptyString,
+  r: object({
+    on: optional(arrayOfStrings),
+    kun: optional(arrayOfStrings),
+    na: optional(arrayOfStrings),
+  }),
+  m: arrayOfStrings,
+  rad: object({
+    x: number,
+    nelson: optional(number),
+    name: optional(arrayOfStrings),
+  }),
+  refs: recordOf(stringOrNumber),
+  misc: object({
+    gh: optional(number),
+    sc: number,
+    freq: optional(number),
+    jlpt: optional(number),
+    jlptn: optional(number),
+    kk: optional(number),
+    meta: optional(arrayOfStrings),
+  }),
+  comp: optional(string),
+  var: optional(arrayOfStrings),
+  // deleted (should NOT be present)
+  deleted: absent,
+});
+
+export function validateKanjiEntryLine(a: any): Array<ValidationFailure> {
+  return validate(a, checkKanjiEntryLine);
+}
+
 export function isKanjiEntryLine(a: any): a is KanjiEntryLine {
-  return (
-    typeof a === 'object' &&
-    a !== null &&
-    // c
-    typeof a.c === 'string' &&
-    !!(a.c as string).length &&
-    // r
-    typeof a.r === 'object' &&
-    a.r !== null &&
-    (typeof a.r.on === 'undefined' || isArrayOfStrings(a.r.on)) &&
-    (typeof a.r.kun === 'undefined' || isArrayOfStrings(a.r.kun)) &&
-    (typeof a.r.na === 'undefined' || isArrayOfStrings(a.r.na)) &&
-    // m
-    isArrayOfStrings(a.m) &&
-    // rad
-    typeof a.rad === 'object' &&
-    a.rad !== null &&
-    typeof a.rad.x === 'number' &&
-    (typeof a.rad.nelson === 'undefined' || typeof a.rad.nelson === 'number') &&
-    (typeof a.rad.name === 'undefined' || isArrayOfStrings(a.rad.name)) &&
-    // refs
-    typeof a.refs === 'object' &&
-    a.refs !== null &&
-    isArrayOfStringsOrNumbers(Object.values(a.refs)) &&
-    // misc
-    typeof a.misc !== 'undefined' &&
-    a.misc !== null &&
-    (typeof a.misc.gh === 'undefined' || typeof a.misc.gh === 'number') &&
-    typeof a.misc.sc === 'number' &&
-    (typeof a.misc.freq === 'undefined' || typeof a.misc.freq === 'number') &&
-    (typeof a.misc.jlpt === 'undefined' || typeof a.misc.jlpt === 'number') &&
-    (typeof a.misc.jlptn === 'undefined' || typeof a.misc.jlptn === 'number') &&
-    (typeof a.misc.kk === 'undefined' || typeof a.misc.kk === 'number') &&
-    (typeof a.misc.meta === 'undefined' || isArrayOfStrings(a.misc.meta)) &&
-    // comp
-    (typeof a.comp === 'undefined' || typeof a.comp === 'string') &&
-    // var
-    (typeof a.var === 'undefined' || isArrayOfStrings(a.var)) &&
-    // deleted (should NOT be present)
-    typeof a.deleted === 'undefined'
-  );
+  return isValid(a, checkKanjiEntryLine);
 }
 
 export function isKanjiDeletionLine(a: any): a is KanjiDeletionLine {
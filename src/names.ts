@@ -1,4 +1,15 @@
-import { isArrayOfStrings, isFinitePositiveNumber } from './utils';
+import { isFinitePositiveNumber } from './utils';
+import {
+  arrayOf,
+  absent,
+  arrayOfStrings,
+  finitePositiveNumber,
+  isValid,
+  object,
+  optional,
+  validate,
+  ValidationFailure,
+} from './validation';
 
 export interface NameEntryLine {
   id: number;
@@ -83,39 +94,34 @@ export interface NameDeletionLine {
   deleted: true;
 }
 
-export function isNameEntryLine(a: any): a is NameEntryLine {
-  return (
-    typeof a === 'object' &&
-    a !== null &&
-    // id
-    isFinitePositiveNumber(a.id) &&
-    // k
-    (typeof a.k === 'undefined' || isArrayOfStrings(a.k)) &&
-    // r
-    isArrayOfStrings(a.r) &&
-    // tr
-    Array.isArray(a.tr) &&
-    (a.tr as Array<any>).every(isNameTranslation) &&
-    // deleted (should NOT be present)
-    typeof a.deleted === 'undefined'
-  );
+const checkNameTranslation = object({
+  // We deliberately don't validate the type is one of the recognized ones
+  // since the set of name types is likely to change in future (it has in the
+  // past) and we don't want to require a major version bump of the database
+  // each time.
+  //
+  // Instead, clients should just ignore types they don't understand or do
+  // some suitable fallback.
+  type: optional(arrayOfStrings),
+  det: arrayOfStrings,
+  cf: optional(arrayOfStrings),
+});
+
+const checkNameEntryLine = object({
+  id: finitePositiveNumber,
+  k: optional(arrayOfStrings),
+  r: arrayOfStrings,
+  tr: arrayOf(checkNameTranslation),
+  // deleted (should NOT be present)
+  deleted: absent,
+});
+
+export function validateNameEntryLine(a: any): Array<ValidationFailure> {
+  return validate(a, checkNameEntryLine);
 }
 
-function isNameTranslation(a: any): a is NameTranslation {
-  return (
-    typeof a === 'object' &&
-    a !== null &&
-    // We deliberately don't validate the type is one of the recognized ones
-    // since the set of name types is likely to change in future (it has in the
-    // past) and we don't want to require a major version bump of the database
-    // each time.
-    //
-    // Instead, clients should just ignore types they don't understand or do
-    // some suitable fallback.
-    (typeof a.type === 'undefined' || isArrayOfStrings(a.type)) &&
-    isArrayOfStrings(a.det) &&
-    (typeof a.cf === 'undefined' || isArrayOfStrings(a.cf))
-  );
+export function isNameEntryLine(a: any): a is NameEntryLine {
+  return isValid(a, checkNameEntryLine);
 }
 
 export function isNameDeletionLine(a: any): a is NameDeletionLine {
@@ -459,6 +459,39 @@ describe('query', function () {
     assert.deepEqual(result, expected);
   });
 
+  it('should fetch names for the requested language', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_INFO);
+    fetchMock.mock(
+      'end:names-rc-en-3.0.0.ljson',
+      `{"type":"header","version":{"major":3,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":1}
+{"r":["こくろう"],"k":["国労"],"id":1657560,"tr":[{"type":["org"],"det":["National Railway Workers' Union"]}]}
+`
+    );
+    fetchMock.mock('end:jpdict-rc-fr-version.json', VERSION_INFO);
+    fetchMock.mock(
+      'end:names-rc-fr-3.0.0.ljson',
+      `{"type":"header","version":{"major":3,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":1}
+{"r":["こくろう"],"k":["国労"],"id":1657560,"tr":[{"type":["org"],"det":["Syndicat national des cheminots"]}]}
+`
+    );
+
+    await db.update({ series: 'names', lang: 'en' });
+    await db.update({ series: 'names', lang: 'fr' });
+
+    const getTranslation = (result: Array<NameResult>) =>
+      result.map((name) => name.tr[0].det[0]);
+
+    assert.deepEqual(getTranslation(await getNames('国労', { lang: 'en' })), [
+      "National Railway Workers' Union",
+    ]);
+    assert.deepEqual(getTranslation(await getNames('国労', { lang: 'fr' })), [
+      'Syndicat national des cheminots',
+    ]);
+    assert.deepEqual(getTranslation(await getNames('国労')), [
+      'Syndicat national des cheminots',
+    ]);
+  });
+
   it('should fetch names by reading', async () => {
     fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_INFO);
     fetchMock.mock(
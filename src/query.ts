@@ -10,6 +10,7 @@ import { kanaToHiragana } from '@birchill/normal-jp';
 import { KanjiEntryLine, Misc, Readings } from './kanji';
 import { KanjiRecord, NameRecord, WordRecord, RadicalRecord } from './records';
 import { JpdictSchema } from './store';
+import { getLanguageTableName } from './table-names';
 import { getTokens } from './tokenizer';
 import { stripFields } from './utils';
 import {
@@ -35,6 +36,14 @@ import { CrossReference } from './words';
 // methods are intended to be run on a separate thread to where the database
 // update methods are being run so that it is still possible for the user to
 // user the database while it is being updated.
+//
+// They do, however, read from the 'tables' and 'languages' tables to find
+// which table holds the data for each series (and language) but those tables
+// are only written to briefly when swapping in the result of a full update or
+// switching languages.
+//
+// Methods that take a language read the data for that language if we have
+// it, falling back to the live data otherwise.
 
 // -------------------------------------------------------------------------
 //
@@ -58,7 +67,7 @@ function open(): Promise<IDBPDatabase<JpdictSchema> | null> {
   _state = 'opening';
 
   _openPromise = idbReady().then(() =>
-    openDB<JpdictSchema>('jpdict', 4, {
+    openDB<JpdictSchema>('jpdict', 7, {
       upgrade(
         _db: IDBPDatabase<JpdictSchema>,
         _oldVersion: number,
@@ -116,7 +125,7 @@ export type MatchType = 'exact' | 'startsWith';
 
 export async function getWords(
   search: string,
-  options?: { matchType?: MatchType; limit: number }
+  options?: { matchType?: MatchType; limit: number; lang?: string }
 ): Promise<Array<WordResult>> {
   const db = await open();
   if (!db) {
@@ -127,6 +136,8 @@ export async function getWords(
   const matchType = options?.matchType ?? 'exact';
   const limit = options?.limit ?? Infinity;
 
+  const tableName = await getLanguageTableName(db, 'words', options?.lang);
+
   // Normalize search string
   const lookup = search.normalize();
 
@@ -160,7 +171,7 @@ export async function getWords(
   };
 
   // Try the k (kanji) index first
-  const kanjiIndex = db!.transaction('words').store.index('k');
+  const kanjiIndex = db!.transaction(tableName).store.index('k');
   // (We explicitly use IDBKeyRange.only because otherwise the idb TS typings
   // fail to recognize that these indices are multi-entry and hence it is
   // valid to supply a single string instead of an array of strings.)
@@ -173,14 +184,14 @@ export async function getWords(
   }
 
   // Then the r (reading) index
-  const readingIndex = db!.transaction('words').store.index('r');
+  const readingIndex = db!.transaction(tableName).store.index('r');
   for await (const cursor of readingIndex.iterate(key)) {
     maybeAddRecord(cursor.value, lookup);
   }
 
   // Then finally try converting to hiragana and using the hiragana index
   {
-    const hiraganaIndex = db!.transaction('words').store.index('h');
+    const hiraganaIndex = db!.transaction(tableName).store.index('h');
     const hiragana = kanaToHiragana(lookup);
     const hiraganaKey =
       matchType === 'exact'
@@ -214,13 +225,16 @@ export async function getWords(
 }
 
 export async function getWordsByCrossReference(
-  xref: CrossReference
+  xref: CrossReference,
+  options?: { lang?: string }
 ): Promise<Array<WordResult>> {
   const db = await open();
   if (!db) {
     return [];
   }
 
+  const tableName = await getLanguageTableName(db, 'words', options?.lang);
+
   // Normalize input
   const k = (xref as any).k?.normalize();
   const r = (xref as any).r?.normalize();
@@ -230,7 +244,7 @@ export async function getWordsByCrossReference(
 
   // Matches with a kanji key
   if (k) {
-    const kanjiIndex = db!.transaction('words').store.index('k');
+    const kanjiIndex = db!.transaction(tableName).store.index('k');
     const key = IDBKeyRange.only(k);
     for await (const cursor of kanjiIndex.iterate(key)) {
       if (r && !cursor.value.r.includes(r)) {
@@ -239,7 +253,7 @@ export async function getWordsByCrossReference(
       results.push(toWordResult(cursor.value, xref, MatchMode.Lexeme));
     }
   } else {
-    const readingIndex = db!.transaction('words').store.index('r');
+    const readingIndex = db!.transaction(tableName).store.index('r');
     const key = IDBKeyRange.only(r);
     for await (const cursor of readingIndex.iterate(key)) {
       results.push(toWordResult(cursor.value, xref, MatchMode.Lexeme));
@@ -250,7 +264,8 @@ export async function getWordsByCrossReference(
 }
 
 export async function getWordsWithKanji(
-  search: string
+  search: string,
+  options?: { lang?: string }
 ): Promise<Array<WordResult>> {
   const db = await open();
   if (!db) {
@@ -270,7 +285,9 @@ export async function getWordsWithKanji(
   // Set up our output value.
   const results: Array<WordResult> = [];
 
-  const kanjiComponentIndex = db!.transaction('words').store.index('kc');
+  const kanjiComponentIndex = db!
+    .transaction(await getLanguageTableName(db!, 'words', options?.lang))
+    .store.index('kc');
   for await (const cursor of kanjiComponentIndex.iterate(
     IDBKeyRange.only(lookup)
   )) {
@@ -320,6 +337,10 @@ export async function getWordsWithGloss(
     return [];
   }
 
+  // Both the localized and English glosses are stored in the data for the
+  // language.
+  const tableName = await getLanguageTableName(db, 'words', lang);
+
   // Fetch at least 50 initial candidates. For common words we need at least
   // 40 or 50 or else we'll possibly fail to include the best entries.
   const numGlossCandidates = Math.max(limit || 0, 50);
@@ -330,7 +351,13 @@ export async function getWordsWithGloss(
 
   // First search using the specified locale (if not English).
   if (lang !== 'en') {
-    const records = await lookUpGlosses(db, search, lang, numGlossCandidates);
+    const records = await lookUpGlosses({
+      db,
+      tableName,
+      term: search,
+      locale: lang,
+      limit: numGlossCandidates,
+    });
     for (const [record, confidence, matchedRanges] of records) {
       const result = toWordResultFromGlossLookup(record, matchedRanges);
       const priority = getPriority(result);
@@ -349,7 +376,13 @@ export async function getWordsWithGloss(
   // We do this even if we have enough candidates in results since the search
   // might be on an English term.
   {
-    const records = await lookUpGlosses(db, search, 'en', numGlossCandidates);
+    const records = await lookUpGlosses({
+      db,
+      tableName,
+      term: search,
+      locale: 'en',
+      limit: numGlossCandidates,
+    });
     for (const [record, confidence, matchedRanges] of records) {
       // If we already added this record as a localized match, skip it.
       if (lang !== 'en' && resultMeta.has(record.id)) {
@@ -388,12 +421,19 @@ export async function getWordsWithGloss(
   return results.slice(0, actualLimit);
 }
 
-async function lookUpGlosses(
-  db: IDBPDatabase<JpdictSchema>,
-  term: string,
-  locale: string,
-  limit: number
-): Promise<
+async function lookUpGlosses({
+  db,
+  tableName,
+  term,
+  locale,
+  limit,
+}: {
+  db: IDBPDatabase<JpdictSchema>;
+  tableName: 'words';
+  term: string;
+  locale: string;
+  limit: number;
+}): Promise<
   Array<
     [record: WordRecord, confidence: number, matchedRanges: Array<MatchedRange>]
   >
@@ -412,7 +452,7 @@ async function lookUpGlosses(
 
   // Look for any records matching the first token in the appropriate index
   const indexName = locale === 'en' ? 'gt_en' : 'gt_l';
-  const glossIndex = db!.transaction('words').store.index(indexName);
+  const glossIndex = db!.transaction(tableName).store.index(indexName);
   let hasFullMatchOnFirstToken = false;
   for await (const cursor of glossIndex.iterate(
     // Prefix match on first token
@@ -553,7 +593,7 @@ export async function getKanji({
   logWarningMessage?: (msg: string) => void;
 }): Promise<Array<KanjiResult>> {
   const ids = kanji.map((kanji) => kanji.codePointAt(0)!);
-  const kanjiRecords: Array<KanjiRecord> = await getKanjiById(ids);
+  const kanjiRecords: Array<KanjiRecord> = await getKanjiById(ids, lang);
 
   const radicalResults = await getRadicalForKanji({
     kanjiRecords,
@@ -600,7 +640,10 @@ export async function getKanji({
   );
 }
 
-async function getKanjiById(ids: Array<number>): Promise<Array<KanjiRecord>> {
+async function getKanjiById(
+  ids: Array<number>,
+  lang: string
+): Promise<Array<KanjiRecord>> {
   const db = await open();
   if (!db) {
     return [];
@@ -608,7 +651,7 @@ async function getKanjiById(ids: Array<number>): Promise<Array<KanjiRecord>> {
 
   const kanjiRecords: Array<KanjiRecord> = [];
   {
-    const tx = db!.transaction('kanji');
+    const tx = db!.transaction(await getLanguageTableName(db!, 'kanji', lang));
     for (const c of ids) {
       const record = await tx.store.get(c);
       if (record) {
@@ -629,7 +672,7 @@ async function getRadicalForKanji({
   lang: string;
   logWarningMessage: (msg: string) => void;
 }): Promise<Array<KanjiResult['rad']>> {
-  const radicals = await getRadicals();
+  const radicals = await getRadicals(lang);
 
   return kanjiRecords.map((record) => {
     const variantId = getRadicalVariantId(record);
@@ -851,7 +894,7 @@ async function getComponentsForKanji({
   );
 
   // Work out which kanji characters we need to lookup
-  const radicalMap = await getCharToRadicalMapping();
+  const radicalMap = await getCharToRadicalMapping(lang);
   const kanjiToLookup = new Set<number>();
   for (const c of components) {
     if (c && !radicalMap.has(c)) {
@@ -862,14 +905,14 @@ async function getComponentsForKanji({
   // ... And look them up
   let kanjiMap: Map<string, KanjiRecord> = new Map();
   if (kanjiToLookup.size) {
-    const kanjiRecords = await getKanjiById([...kanjiToLookup]);
+    const kanjiRecords = await getKanjiById([...kanjiToLookup], lang);
     kanjiMap = new Map(
       kanjiRecords.map((record) => [String.fromCodePoint(record.c), record])
     );
   }
 
   // Now fill out the information
-  const radicals = await getRadicals();
+  const radicals = await getRadicals(lang);
   const result: Array<KanjiResult['comp']> = [];
   for (const record of kanjiRecords) {
     const comp: KanjiResult['comp'] = [];
@@ -998,7 +1041,7 @@ async function getRelatedKanji(
   // ... And look them up
   let kanjiMap: Map<string, KanjiRecord> = new Map();
   if (kanjiToLookup.size) {
-    const kanjiRecords = await getKanjiById([...kanjiToLookup]);
+    const kanjiRecords = await getKanjiById([...kanjiToLookup], lang);
     kanjiMap = new Map(
       kanjiRecords.map((record) => [String.fromCodePoint(record.c), record])
     );
@@ -1023,19 +1066,21 @@ async function getRelatedKanji(
   return result;
 }
 
-async function getRadicals(): Promise<Map<string, RadicalRecord>> {
+async function getRadicals(lang: string): Promise<Map<string, RadicalRecord>> {
   const db = await open();
   if (!db) {
     return new Map();
   }
 
   return db
-    .getAll('radicals')
+    .getAll(await getLanguageTableName(db, 'radicals', lang))
     .then((records) => new Map(records.map((record) => [record.id, record])));
 }
 
-async function getCharToRadicalMapping(): Promise<Map<string, string>> {
-  const radicals = await getRadicals();
+async function getCharToRadicalMapping(
+  lang: string
+): Promise<Map<string, string>> {
+  const radicals = await getRadicals(lang);
 
   let baseRadical: RadicalRecord | undefined;
   const mapping: Map<string, string> = new Map();
@@ -1085,12 +1130,17 @@ async function getCharToRadicalMapping(): Promise<Map<string, string>> {
 
 export type NameResult = Omit<NameRecord, 'h'>;
 
-export async function getNames(search: string): Promise<Array<NameResult>> {
+export async function getNames(
+  search: string,
+  options?: { lang?: string }
+): Promise<Array<NameResult>> {
   const db = await open();
   if (!db) {
     return [];
   }
 
+  const tableName = await getLanguageTableName(db, 'names', options?.lang);
+
   // Normalize search string
   const lookup = search.normalize();
 
@@ -1106,7 +1156,7 @@ export async function getNames(search: string): Promise<Array<NameResult>> {
   };
 
   // Try the k (kanji) index first
-  const kanjiIndex = db!.transaction('names').store.index('k');
+  const kanjiIndex = db!.transaction(tableName).store.index('k');
   // (We explicitly use IDBKeyRange.only because otherwise the idb TS typings
   // fail to recognize that these indices are multi-entry and hence it is
   // valid to supply a single string instead of an array of strings.)
@@ -1115,13 +1165,13 @@ export async function getNames(search: string): Promise<Array<NameResult>> {
   }
 
   // Then the r (reading) index
-  const readingIndex = db!.transaction('names').store.index('r');
+  const readingIndex = db!.transaction(tableName).store.index('r');
   for await (const cursor of readingIndex.iterate(IDBKeyRange.only(lookup))) {
     maybeAddRecord(cursor.value);
   }
 
   // Then finally try converting to hiragana and using the hiragana index
-  const hiraganaIndex = db!.transaction('names').store.index('h');
+  const hiraganaIndex = db!.transaction(tableName).store.index('h');
   const hiragana = kanaToHiragana(lookup);
   for await (const cursor of hiraganaIndex.iterate(
     IDBKeyRange.only(hiragana)
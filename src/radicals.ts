@@ -1,4 +1,15 @@
-import { isArrayOfStrings } from './utils';
+import {
+  absent,
+  arrayOfStrings,
+  nonEmptyString,
+  number,
+  string,
+  isValid,
+  object,
+  optional,
+  validate,
+  ValidationFailure,
+} from './validation';
 
 export interface RadicalEntryLine {
   id: string;
@@ -18,32 +29,26 @@ export interface RadicalDeletionLine {
   deleted: true;
 }
 
+const checkRadicalEntryLine = object({
+  id: nonEmptyString,
+  r: number,
+  b: optional(string),
+  k: optional(string),
+  pua: optional(number),
+  s: number,
+  na: arrayOfStrings,
+  posn: optional(string),
+  m: arrayOfStrings,
+  // deleted (should NOT be present)
+  deleted: absent,
+});
+
+export function validateRadicalEntryLine(a: any): Array<ValidationFailure> {
+  return validate(a, checkRadicalEntryLine);
+}
+
 export function isRadicalEntryLine(a: any): a is RadicalEntryLine {
-  return (
-    typeof a === 'object' &&
-    a !== null &&
-    // c
-    typeof a.id === 'string' &&
-    !!(a.id as string).length &&
-    // r
-    typeof a.r === 'number' &&
-    // b
-    (typeof a.b === 'undefined' || typeof a.b === 'string') &&
-    // k
-    (typeof a.k === 'undefined' || typeof a.k === 'string') &&
-    // pua
-    (typeof a.pua === 'undefined' || typeof a.pua === 'number') &&
-    // s
-    typeof a.s === 'number' &&
-    // na
-    isArrayOfStrings(a.na) &&
-    // posn
-    (typeof a.posn === 'undefined' || typeof a.posn === 'string') &&
-    // m
-    isArrayOfStrings(a.m) &&
-    // deleted (should NOT be present)
-    typeof a.deleted === 'undefined'
-  );
+  return isValid(a, checkRadicalEntryLine);
 }
 
 export function isRadicalDeletionLine(a: any): a is RadicalDeletionLine {
@@ -10,6 +10,7 @@ import {
   WordDeletionLine,
   WordEntryLine,
 } from './words';
+import { stripFields } from './utils';
 
 // ---------------------------------------------------------------------------
 //
@@ -61,6 +62,26 @@ export function toWordRecord(entry: WordEntryLine): WordRecord {
   return result;
 }
 
+export function fromWordRecord(record: WordRecord): WordEntryLine {
+  const result: WordEntryLine = stripFields(record, [
+    'rm',
+    'km',
+    'h',
+    'kc',
+    'gt_en',
+    'gt_l',
+  ]);
+
+  if (record.rm) {
+    result.rm = record.rm.map((elem) => (elem === null ? 0 : elem));
+  }
+  if (record.km) {
+    result.km = record.km.map((elem) => (elem === null ? 0 : elem));
+  }
+
+  return result;
+}
+
 export function getIdForWordRecord(entry: WordDeletionLine): number {
   return entry.id;
 }
@@ -83,6 +104,13 @@ export function toKanjiRecord(entry: KanjiEntryLine): KanjiRecord {
   };
 }
 
+export function fromKanjiRecord(record: KanjiRecord): KanjiEntryLine {
+  return {
+    ...record,
+    c: String.fromCodePoint(record.c),
+  };
+}
+
 export function getIdForKanjiRecord(entry: KanjiDeletionLine): number {
   return entry.c.codePointAt(0) as number;
 }
@@ -93,6 +121,10 @@ export function toRadicalRecord(entry: RadicalEntryLine): RadicalRecord {
   return entry;
 }
 
+export function fromRadicalRecord(record: RadicalRecord): RadicalEntryLine {
+  return record;
+}
+
 export function getIdForRadicalRecord(entry: RadicalDeletionLine): string {
   return entry.id;
 }
@@ -115,6 +147,10 @@ export function toNameRecord(entry: NameEntryLine): NameRecord {
   };
 }
 
+export function fromNameRecord(record: NameRecord): NameEntryLine {
+  return stripFields(record, ['h']);
+}
+
 export function getIdForNameRecord(entry: NameDeletionLine): number {
   return entry.id;
 }
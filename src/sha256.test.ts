@@ -0,0 +1,51 @@
+import { assert } from 'chai';
+
+import { createSha256 } from './sha256';
+
+mocha.setup('bdd');
+
+describe('createSha256', () => {
+  const hash = (chunks: Array<string>): string => {
+    const sha256 = createSha256();
+    const encoder = new TextEncoder();
+    for (const chunk of chunks) {
+      sha256.update(encoder.encode(chunk));
+    }
+    return sha256.digest();
+  };
+
+  it('should hash an empty input', () => {
+    assert.strictEqual(
+      hash([]),
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    );
+  });
+
+  it('should hash a short input', () => {
+    assert.strictEqual(
+      hash(['abc']),
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+  });
+
+  it('should hash an input that needs an extra block for padding', () => {
+    assert.strictEqual(
+      hash(['abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq']),
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+    );
+  });
+
+  it('should produce the same result regardless of how the input is split', () => {
+    const input = 'a'.repeat(1000);
+    const chunks: Array<string> = [];
+    for (let i = 0, size = 1; i < input.length; i += size, size += 7) {
+      chunks.push(input.substring(i, i + size));
+    }
+
+    assert.strictEqual(hash(chunks), hash([input]));
+    assert.strictEqual(
+      hash(new Array(1000).fill('a'.repeat(1000))),
+      'cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0'
+    );
+  });
+});
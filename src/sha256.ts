@@ -0,0 +1,143 @@
+// An incremental implementation of SHA-256.
+//
+// SubtleCrypto can only produce the digest of a complete buffer so using it
+// to check a downloaded file would mean holding the whole (uncompressed) file
+// in memory until we reach the end. Instead we feed the file to the hash as
+// it arrives.
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const BLOCK_SIZE = 64;
+
+export function createSha256() {
+  const state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+    0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const words = new Uint32Array(64);
+
+  // Any bytes left over from the last call to `update` that don't yet make up
+  // a whole block.
+  const buffer = new Uint8Array(BLOCK_SIZE);
+  let bufferLength = 0;
+  let bytesHashed = 0;
+
+  const processBlock = (bytes: Uint8Array, offset: number) => {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      words[i] =
+        (bytes[j] << 24) |
+        (bytes[j + 1] << 16) |
+        (bytes[j + 2] << 8) |
+        bytes[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const w15 = words[i - 15];
+      const w2 = words[i - 2];
+      const s0 = rotr(w15, 7) ^ rotr(w15, 18) ^ (w15 >>> 3);
+      const s1 = rotr(w2, 17) ^ rotr(w2, 19) ^ (w2 >>> 10);
+      words[i] = words[i - 16] + s0 + words[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + s1 + ch + K[i] + words[i]) | 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + maj) | 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  };
+
+  const update = (data: Uint8Array) => {
+    bytesHashed += data.length;
+
+    let position = 0;
+
+    // Top up any partial block first
+    if (bufferLength) {
+      const toCopy = Math.min(BLOCK_SIZE - bufferLength, data.length);
+      buffer.set(data.subarray(0, toCopy), bufferLength);
+      bufferLength += toCopy;
+      position = toCopy;
+      if (bufferLength < BLOCK_SIZE) {
+        return;
+      }
+      processBlock(buffer, 0);
+      bufferLength = 0;
+    }
+
+    // Then process whole blocks directly from the input
+    while (data.length - position >= BLOCK_SIZE) {
+      processBlock(data, position);
+      position += BLOCK_SIZE;
+    }
+
+    // And keep the remainder for next time
+    buffer.set(data.subarray(position), 0);
+    bufferLength = data.length - position;
+  };
+
+  // Returns the digest as a lowercase hex string.
+  //
+  // No more data should be added after calling this.
+  const digest = (): string => {
+    const bitLengthHigh = Math.floor(bytesHashed / 0x20000000);
+    const bitLengthLow = (bytesHashed * 8) >>> 0;
+
+    // Pad with a single 1 bit followed by zeros up to 8 bytes short of
+    // a whole block, then the length of the message in bits.
+    const paddingLength =
+      bufferLength < BLOCK_SIZE - 8
+        ? BLOCK_SIZE - bufferLength
+        : 2 * BLOCK_SIZE - bufferLength;
+    const padding = new Uint8Array(paddingLength);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(paddingLength - 8, bitLengthHigh);
+    view.setUint32(paddingLength - 4, bitLengthLow);
+
+    update(padding);
+
+    return Array.from(state)
+      .map((word) => word.toString(16).padStart(8, '0'))
+      .join('');
+  };
+
+  return { update, digest };
+}
+
+function rotr(x: number, n: number): number {
+  return (x >>> n) | (x << (32 - n));
+}
@@ -74,4 +74,54 @@ describe('store', function () {
     // Tidy up
     await store.destroy();
   });
+
+  it('should keep the previous data until the next update starts', async () => {
+    const store = new JpdictStore();
+    const kanji = (c: number) => ({
+      c,
+      r: {},
+      m: [],
+      rad: { x: 1 },
+      refs: { nelson_c: 265, halpern_njecd: 2028 },
+      misc: { sc: 6 },
+    });
+    const version = (major: number) => ({
+      major,
+      minor: 0,
+      patch: 0,
+      databaseVersion: 'yer',
+      dateOfCreation: '2019-07-23',
+      lang: 'en',
+    });
+
+    await store.bulkUpdateTable({
+      table: 'kanji',
+      put: [kanji(13314)],
+      drop: [],
+      version: version(1),
+    });
+
+    // Do a full update
+    await store.putShadowRecords({ table: 'kanji', put: [kanji(13315)] });
+    await store.swapShadowTable({ table: 'kanji', version: version(2) });
+    assert.deepEqual(
+      (await store._getKanji([13314, 13315])).map((record) => record.c),
+      [13315]
+    );
+
+    // A query that looked up the table name before the swap should still be
+    // able to read the old data
+    const db = await store.open();
+    assert.strictEqual(await db.count('kanji'), 1);
+
+    // But it should be dropped once the next update starts
+    await store.clearRetiredTable('kanji');
+    assert.strictEqual(await db.count('kanji'), 0);
+    assert.deepEqual(
+      (await store._getKanji([13314, 13315])).map((record) => record.c),
+      [13315]
+    );
+
+    await store.destroy();
+  });
 });
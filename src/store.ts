@@ -2,14 +2,16 @@ import {
   DBSchema,
   deleteDB,
   IDBPDatabase,
+  IDBPObjectStore,
   IDBPTransaction,
   StoreNames,
   openDB,
 } from 'idb/with-async-ittr';
 import idbReady from 'safari-14-idb-fix';
 
-import { DataSeries } from './data-series';
+import { allDataSeries, DataSeries } from './data-series';
 import { DataVersion } from './data-version';
+import { Version } from './download';
 import { QuotaExceededError } from './quota-exceeded-error';
 import {
   getIdForKanjiRecord,
@@ -25,6 +27,14 @@ import {
   toWordRecord,
   WordRecord,
 } from './records';
+import {
+  allTableSlots,
+  getActiveSlot,
+  getActiveTableName,
+  getShadowSlot,
+  getTableName,
+  TableSlot,
+} from './table-names';
 import { stripFields } from './utils';
 
 interface DataVersionRecord extends DataVersion {
@@ -47,50 +57,199 @@ function getVersionKey(series: DataSeries): 1 | 2 | 3 | 4 {
   }
 }
 
-export interface JpdictSchema extends DBSchema {
-  words: {
-    key: number;
-    value: WordRecord;
-    indexes: {
-      k: Array<string>;
-      r: Array<string>;
-      h: Array<string>;
-      kc: Array<string>;
-      gt_en: Array<string>;
-      gt_l: Array<string>;
-    };
+interface WordsTable {
+  key: number;
+  value: WordRecord;
+  indexes: {
+    k: Array<string>;
+    r: Array<string>;
+    h: Array<string>;
+    kc: Array<string>;
+    gt_en: Array<string>;
+    gt_l: Array<string>;
   };
-  kanji: {
-    key: number;
-    value: KanjiRecord;
-    indexes: {
-      'r.on': Array<string>;
-      'r.kun': Array<string>;
-      'r.na': Array<string>;
-    };
+}
+
+interface KanjiTable {
+  key: number;
+  value: KanjiRecord;
+  indexes: {
+    'r.on': Array<string>;
+    'r.kun': Array<string>;
+    'r.na': Array<string>;
   };
-  radicals: {
-    key: string;
-    value: RadicalRecord;
-    indexes: {
-      r: number;
-      b: string;
-      k: string;
-    };
+}
+
+interface RadicalsTable {
+  key: string;
+  value: RadicalRecord;
+  indexes: {
+    r: number;
+    b: string;
+    k: string;
   };
-  names: {
-    key: number;
-    value: NameRecord;
-    indexes: {
-      k: Array<string>;
-      r: Array<string>;
-      h: Array<string>;
-    };
+}
+
+interface NamesTable {
+  key: number;
+  value: NameRecord;
+  indexes: {
+    k: Array<string>;
+    r: Array<string>;
+    h: Array<string>;
   };
+}
+
+// Records which of the tables for a series holds the live data (see
+// table-names.ts). If there is no record for a series, it is slot 0.
+interface ActiveTableRecord {
+  series: DataSeries;
+  slot: TableSlot;
+  // The slot that held the live data before the last full update, if it has
+  // not been cleared yet (see JpdictStore.clearRetiredTable).
+  retired?: TableSlot;
+}
+
+// Records where we keep the data for a language other than the live one for
+// a series (see JpdictStore.switchLanguage).
+interface LanguageRecord {
+  series: DataSeries;
+  lang: string;
+  slot: TableSlot;
+  version: DataVersion;
+  // When the data was last live. We drop the least recently used languages
+  // first when we reach the limit on the number of languages to keep or the
+  // amount of storage to use for them.
+  lastUsed: Date;
+  // The approximate size of the data in bytes (see estimateTableSize).
+  size: number;
+}
+
+function getLanguageRange(series: DataSeries): IDBKeyRange {
+  return IDBKeyRange.bound([series], [series, []]);
+}
+
+// The maximum number of languages we can keep for a series.
+//
+// We need to keep one table free for building up full updates.
+const MAX_LANGUAGES = allTableSlots.length - 1;
+
+// - 'apply': Records from the file for the version are being written.
+// - 'commit': All the records for a full update have been written to the
+//   shadow table and it simply remains to swap it in.
+export type UpdatePhase = 'apply' | 'commit';
+
+// Records how far we got applying a version of a series so that if the update
+// is interrupted, we can resume from the last committed chunk rather than
+// starting over.
+//
+// The checkpoints table hence serves as a journal of in-progress updates. A
+// checkpoint is only present while an update is in progress (or after it was
+// interrupted).
+export interface UpdateCheckpoint {
+  series: DataSeries;
+  // The version being applied
+  version: DataVersion;
+  // Set when the version is being applied from a bridge file (see
+  // VersionEvent) so that we don't resume applying it from a full file or
+  // vice versa.
+  from?: Version;
+  phase: UpdatePhase;
+  // The number of records read from the file for the version whose changes
+  // have been committed
+  recordsCommitted: number;
+  // The number of records quarantined amongst the committed records
+  quarantined: number;
+}
+
+export interface JpdictSchema extends DBSchema {
+  words: WordsTable;
+  'words-b': WordsTable;
+  kanji: KanjiTable;
+  'kanji-b': KanjiTable;
+  radicals: RadicalsTable;
+  'radicals-b': RadicalsTable;
+  names: NamesTable;
+  'names-b': NamesTable;
+  'words-c': WordsTable;
+  'words-d': WordsTable;
+  'kanji-c': KanjiTable;
+  'kanji-d': KanjiTable;
+  'radicals-c': RadicalsTable;
+  'radicals-d': RadicalsTable;
+  'names-c': NamesTable;
+  'names-d': NamesTable;
   version: {
     key: number;
     value: DataVersionRecord;
   };
+  tables: {
+    key: DataSeries;
+    value: ActiveTableRecord;
+  };
+  checkpoints: {
+    key: DataSeries;
+    value: UpdateCheckpoint;
+  };
+  languages: {
+    key: [DataSeries, string];
+    value: LanguageRecord;
+  };
+}
+
+function createTable(
+  db: IDBPDatabase<JpdictSchema>,
+  series: DataSeries,
+  slot: TableSlot
+) {
+  switch (series) {
+    case 'words':
+      {
+        const table = db.createObjectStore(getTableName('words', slot), {
+          keyPath: 'id',
+        });
+        table.createIndex('k', 'k', { multiEntry: true });
+        table.createIndex('r', 'r', { multiEntry: true });
+        table.createIndex('h', 'h', { multiEntry: true });
+        table.createIndex('kc', 'kc', { multiEntry: true });
+        table.createIndex('gt_en', 'gt_en', { multiEntry: true });
+        table.createIndex('gt_l', 'gt_l', { multiEntry: true });
+      }
+      break;
+
+    case 'kanji':
+      {
+        const table = db.createObjectStore(getTableName('kanji', slot), {
+          keyPath: 'c',
+        });
+        table.createIndex('r.on', 'r.on', { multiEntry: true });
+        table.createIndex('r.kun', 'r.kun', { multiEntry: true });
+        table.createIndex('r.na', 'r.na', { multiEntry: true });
+      }
+      break;
+
+    case 'radicals':
+      {
+        const table = db.createObjectStore(getTableName('radicals', slot), {
+          keyPath: 'id',
+        });
+        table.createIndex('r', 'r');
+        table.createIndex('b', 'b');
+        table.createIndex('k', 'k');
+      }
+      break;
+
+    case 'names':
+      {
+        const table = db.createObjectStore(getTableName('names', slot), {
+          keyPath: 'id',
+        });
+        table.createIndex('k', 'k', { multiEntry: true });
+        table.createIndex('r', 'r', { multiEntry: true });
+        table.createIndex('h', 'h', { multiEntry: true });
+      }
+      break;
+  }
 }
 
 export class JpdictStore {
@@ -127,7 +286,7 @@ export class JpdictStore {
     const self = this;
 
     this.openPromise = idbReady().then(() =>
-      openDB<JpdictSchema>('jpdict', 4, {
+      openDB<JpdictSchema>('jpdict', 7, {
         upgrade(
           db: IDBPDatabase<JpdictSchema>,
           oldVersion: number,
@@ -181,6 +340,31 @@ export class JpdictStore {
             wordsTable.createIndex('gt_en', 'gt_en', { multiEntry: true });
             wordsTable.createIndex('gt_l', 'gt_l', { multiEntry: true });
           }
+          if (oldVersion < 5) {
+            for (const series of allDataSeries) {
+              createTable(db, series, 1);
+            }
+            db.createObjectStore<'tables'>('tables', { keyPath: 'series' });
+          }
+          if (oldVersion < 6) {
+            db.createObjectStore<'checkpoints'>('checkpoints', {
+              keyPath: 'series',
+            });
+          }
+          if (oldVersion < 7) {
+            // Object stores can only be created when upgrading the database
+            // so we create all the tables we might need for other languages
+            // up front rather than bumping the version (and closing any
+            // connections in other contexts) when a user first switches
+            // language. Empty tables take up next to no space.
+            for (const series of allDataSeries) {
+              createTable(db, series, 2);
+              createTable(db, series, 3);
+            }
+            db.createObjectStore<'languages'>('languages', {
+              keyPath: ['series', 'lang'],
+            });
+          }
         },
         blocked() {
           console.log('Opening blocked');
@@ -258,13 +442,159 @@ export class JpdictStore {
     this.state = 'idle';
   }
 
+  // Drops all the data for a series including the data for any other
+  // languages and any partial full update.
   async clearTable(series: DataSeries) {
-    await this.bulkUpdateTable({
-      table: series,
-      put: [],
-      drop: '*',
-      version: null,
-    });
+    await this.open();
+
+    const tableNames = allTableSlots.map((slot) => getTableName(series, slot));
+    const tx = this.db!.transaction(
+      [...tableNames, 'version', 'languages', 'checkpoints'],
+      'readwrite'
+    );
+    await Promise.all([
+      ...tableNames.map((tableName) => tx.objectStore(tableName).clear()),
+      tx.objectStore('version').delete(getVersionKey(series)),
+      tx.objectStore('languages').delete(getLanguageRange(series)),
+      tx.objectStore('checkpoints').delete(series),
+    ]);
+    await tx.done;
+  }
+
+  // Makes the data for the given language live, setting aside the data for
+  // the current language (if any) so that we can switch back to it later
+  // without having to download it again.
+  //
+  // If we don't have the data for the requested language (or we have it but
+  // from a different source), the live table is left empty, ready for a full
+  // update.
+  //
+  // At most `maxLanguages` languages (including the requested one) are kept
+  // for the series, and the data for languages other than the requested one
+  // is limited to approximately `quota` bytes, dropping the least recently
+  // used languages first. If we are running out of storage, we don't keep
+  // the data for any other languages.
+  //
+  // Returns the version of the data that is now live, if any.
+  async switchLanguage({
+    series,
+    lang,
+    source,
+    maxLanguages,
+    quota = Infinity,
+  }: {
+    series: DataSeries;
+    lang: string;
+    source?: string;
+    maxLanguages: number;
+    quota?: number;
+  }): Promise<DataVersion | null> {
+    await this.open();
+
+    // We need to check this before starting the transaction since the
+    // transaction will commit if we wait on anything else.
+    const lowOnStorage = await atOrNearQuota();
+
+    const tableNames = allTableSlots.map((slot) => getTableName(series, slot));
+    const tx = this.db!.transaction(
+      [...tableNames, 'tables', 'version', 'languages', 'checkpoints'],
+      'readwrite'
+    );
+    const tablesTable = tx.objectStore('tables');
+    const versionTable = tx.objectStore('version');
+    const languagesTable = tx.objectStore('languages');
+    const versionKey = getVersionKey(series);
+
+    const currentSlot = (await tablesTable.get(series))?.slot ?? 0;
+    const currentVersion = await versionTable.get(versionKey);
+    const languages = await languagesTable.getAll(getLanguageRange(series));
+
+    // Set aside the current data
+    if (currentVersion) {
+      languages.push({
+        series,
+        lang: currentVersion.lang,
+        slot: currentSlot,
+        version: stripFields(currentVersion, ['id']),
+        lastUsed: new Date(),
+        size: await estimateTableSize(
+          tx.objectStore(getTableName(series, currentSlot))
+        ),
+      });
+    }
+
+    const target = languages.find(
+      (record) => record.lang === lang && record.version.source === source
+    );
+    const maxKept = lowOnStorage
+      ? 0
+      : Math.max(Math.min(maxLanguages, MAX_LANGUAGES) - 1, 0);
+    const kept: Array<LanguageRecord> = [];
+    let keptSize = 0;
+    for (const record of languages
+      .filter((record) => record.lang !== lang)
+      .sort((a, b) => b.lastUsed.getTime() - a.lastUsed.getTime())) {
+      if (kept.length >= maxKept || keptSize + record.size > quota) {
+        break;
+      }
+      kept.push(record);
+      keptSize += record.size;
+    }
+
+    const keptSlots = kept.map((record) => record.slot);
+    const slot = target
+      ? target.slot
+      : allTableSlots.find((slot) => !keptSlots.includes(slot))!;
+
+    try {
+      await tablesTable.put({ series, slot });
+      if (target) {
+        await versionTable.put({ ...target.version, id: versionKey });
+      } else {
+        await versionTable.delete(versionKey);
+      }
+
+      await languagesTable.delete(getLanguageRange(series));
+      for (const record of kept) {
+        await languagesTable.put(record);
+      }
+
+      // Any checkpoint is for a different language
+      await tx.objectStore('checkpoints').delete(series);
+
+      // Drop the data for any languages we are no longer keeping (and make
+      // sure the live table is empty if we don't have the requested data).
+      for (const unusedSlot of allTableSlots) {
+        if (
+          !keptSlots.includes(unusedSlot) &&
+          (unusedSlot !== slot || !target)
+        ) {
+          await tx.objectStore(getTableName(series, unusedSlot)).clear();
+        }
+      }
+    } catch (e) {
+      // Ignore the abort from the transaction
+      tx.done.catch(() => {});
+      try {
+        tx.abort();
+      } catch (_) {
+        // As above, ignore exceptions from aborting the transaction.
+      }
+
+      throw e;
+    }
+
+    await tx.done;
+
+    return target ? target.version : null;
+  }
+
+  // Returns true if we have set aside data for the given language (see
+  // switchLanguage).
+  async hasLanguageData(series: DataSeries, lang: string): Promise<boolean> {
+    await this.open();
+
+    return !!(await this.db!.count('languages', [series, lang]));
   }
 
   async getDataVersion(series: DataSeries): Promise<DataVersion | null> {
@@ -279,23 +609,44 @@ export class JpdictStore {
     return stripFields(versionDoc, ['id']);
   }
 
+  async getCheckpoint(
+    series: DataSeries
+  ): Promise<UpdateCheckpoint | undefined> {
+    await this.open();
+
+    return this.db!.get('checkpoints', series);
+  }
+
+  // Applies the given changes to the live table for a series.
+  //
+  // If `version` is undefined, the version is left unchanged. This is used
+  // when applying a patch in chunks, in which case `checkpoint` records how
+  // much of the patch has been applied. Otherwise, any checkpoint for the
+  // series is cleared.
+
   async bulkUpdateTable<Name extends DataSeries>({
     table,
     put,
     drop,
     version,
+    checkpoint,
     onProgress,
   }: {
     table: Name;
     put: Array<JpdictSchema[Name]['value']>;
     drop: Array<JpdictSchema[Name]['key']> | '*';
-    version: DataVersion | null;
+    version?: DataVersion | null;
+    checkpoint?: UpdateCheckpoint;
     onProgress?: (params: { processed: number; total: number }) => void;
   }) {
     await this.open();
 
-    const tx = this.db!.transaction([table, 'version'], 'readwrite');
-    const targetTable = tx.objectStore(table);
+    const tableName = await getActiveTableName(this.db!, table);
+    const tx = this.db!.transaction(
+      [tableName, 'version', 'checkpoints'],
+      'readwrite'
+    );
+    const targetTable = tx.objectStore(tableName);
 
     // Calculate the total number of records we will process.
     const totalRecords = (drop !== '*' ? drop.length : 0) + put.length;
@@ -332,86 +683,31 @@ export class JpdictStore {
     }
 
     try {
-      let processed = 0;
-
-      // Batch updates so we can report progress.
-      //
-      // 4,000 gives us enough granularity when dealing with small data sets
-      // like the kanji data (~13k records) while avoiding being too spammy with
-      // large data sets like the names data (~740k records).
-      const BATCH_SIZE = 4000;
-      while (put.length) {
-        const batch = put.splice(0, BATCH_SIZE);
-        const putPromises: Array<Promise<JpdictSchema[Name]['key']>> = [];
-        for (const record of batch) {
-          // The important thing here is NOT to wait on the result of put.
-          // This speeds up the operation by an order of magnitude or two and
-          // is Dexie's secret sauce.
-          //
-          // See: https://jsfiddle.net/birtles/vx4urLkw/17/
-          const putPromise = targetTable.put(record);
-
-          // Add some extra logging directly on the put promise.
-          putPromise.catch((e) => {
-            if (e?.name !== 'AbortError') {
-              console.log('Got error putting record');
-              console.log(e, e?.name, e?.message);
-            }
-          });
-
-          // Note that we hold on to the original promise (NOT the result of the
-          // call to catch() above) so that the call to Promise.all below still
-          // rejects.
-          putPromises.push(putPromise);
-        }
-        await Promise.all(putPromises);
-
-        processed += batch.length;
-        if (onProgress) {
-          onProgress({ processed, total: totalRecords });
-        }
-      }
+      await putRecords({ table: targetTable, put, onProgress, totalRecords });
     } catch (e) {
       console.log('Error during put portion of bulk update');
       console.log(e);
 
-      // Ignore the abort from the transaction
-      tx.done.catch(() => {});
-      try {
-        tx.abort();
-      } catch (_) {
-        // As above, ignore exceptions from aborting the transaction.
-      }
-
-      // We sometimes encounter a situation where Firefox throws an Error with
-      // an undefined message. All we have to go by is a user's screenshot that
-      // shows the following in the browser console:
-      //
-      //   Error: undefined
-      //
-      // We _think_ this happens in some cases where the disk space quota is
-      // exceeded so we try to detect that case and throw an actual
-      // QuotaExceededError instead.
-      if (isVeryGenericError(e) && (await atOrNearQuota())) {
-        console.log(
-          'Detected generic error masking a quota exceeded situation'
-        );
-        throw new QuotaExceededError();
-      }
-
-      throw e;
+      throw await abortAfterPutError(tx, e);
     }
 
     try {
       const dbVersionTable = tx.objectStore('version');
+      const checkpointTable = tx.objectStore('checkpoints');
       const id = getVersionKey(table);
       if (version) {
         await dbVersionTable.put({
           ...version,
           id,
         });
-      } else {
+        await checkpointTable.delete(table);
+      } else if (version === null) {
         await dbVersionTable.delete(id);
+        await checkpointTable.delete(table);
+      }
+
+      if (checkpoint) {
+        await checkpointTable.put(checkpoint);
       }
     } catch (e) {
       console.log('Error during version update portion of bulk update');
@@ -431,13 +727,199 @@ export class JpdictStore {
     await tx.done;
   }
 
+  // Full updates
+  //
+  // Rather than clearing the live table and re-filling it (which would mean
+  // readers see an empty or partially-filled table in the meantime), full
+  // updates are written to a spare table for the series, the shadow table
+  // (see table-names.ts), which is then swapped in once it is complete.
+  //
+  // Since the shadow table is not visible to readers, we can write to it in
+  // as many transactions as we like, recording a checkpoint with each one.
+
+  async clearShadowTable(table: DataSeries) {
+    await this.open();
+
+    const shadowTableName = getTableName(
+      table,
+      await getShadowSlot(this.db!, table)
+    );
+    const tx = this.db!.transaction(
+      [shadowTableName, 'checkpoints'],
+      'readwrite'
+    );
+    await Promise.all([
+      tx.objectStore(shadowTableName).clear(),
+      tx.objectStore('checkpoints').delete(table),
+    ]);
+    await tx.done;
+  }
+
+  async putShadowRecords<Name extends DataSeries>({
+    table,
+    put,
+    checkpoint,
+    onProgress,
+  }: {
+    table: Name;
+    put: Array<JpdictSchema[Name]['value']>;
+    checkpoint?: UpdateCheckpoint;
+    onProgress?: (params: { processed: number; total: number }) => void;
+  }) {
+    await this.open();
+
+    const shadowTableName = getTableName(
+      table,
+      await getShadowSlot(this.db!, table)
+    );
+    const tx = this.db!.transaction(
+      [shadowTableName, 'checkpoints'],
+      'readwrite'
+    );
+
+    try {
+      await putRecords({
+        table: tx.objectStore(shadowTableName),
+        put,
+        onProgress,
+        totalRecords: put.length,
+      });
+      if (checkpoint) {
+        await tx.objectStore('checkpoints').put(checkpoint);
+      }
+    } catch (e) {
+      console.log('Error while writing to shadow table');
+      console.log(e);
+
+      throw await abortAfterPutError(tx, e);
+    }
+
+    await tx.done;
+  }
+
+  // Makes the data written using putShadowRecords live, updating the version
+  // at the same time.
+  async swapShadowTable({
+    table,
+    version,
+  }: {
+    table: DataSeries;
+    version: DataVersion;
+  }) {
+    await this.open();
+
+    const slot = await getActiveSlot(this.db!, table);
+    const shadowSlot = await getShadowSlot(this.db!, table);
+    const tx = this.db!.transaction(
+      ['tables', 'version', 'checkpoints'],
+      'readwrite'
+    );
+    await Promise.all([
+      tx.objectStore('tables').put({
+        series: table,
+        slot: shadowSlot,
+        retired: slot,
+      }),
+      tx.objectStore('version').put({ ...version, id: getVersionKey(table) }),
+      tx.objectStore('checkpoints').delete(table),
+    ]);
+    await tx.done;
+
+    // We don't clear the old data here since a query may have looked up the
+    // table name before we swapped and not yet read from it. Instead, it is
+    // cleared when the next update starts (see clearRetiredTable).
+  }
+
+  // Frees up the space used by the data that was live before the last full
+  // update (see swapShadowTable).
+  async clearRetiredTable(series: DataSeries) {
+    await this.open();
+
+    const tableNames = allTableSlots.map((slot) => getTableName(series, slot));
+    const tx = this.db!.transaction(
+      [...tableNames, 'tables', 'languages'],
+      'readwrite'
+    );
+    const tablesTable = tx.objectStore('tables');
+
+    const record = await tablesTable.get(series);
+    if (!record || typeof record.retired === 'undefined') {
+      await tx.done;
+      return;
+    }
+
+    // Check the slot hasn't been re-used in the meantime
+    const languages = await tx
+      .objectStore('languages')
+      .getAll(getLanguageRange(series));
+    const { retired, ...activeTable } = record;
+    if (
+      retired !== activeTable.slot &&
+      !languages.some((language) => language.slot === retired)
+    ) {
+      await tx.objectStore(getTableName(series, retired)).clear();
+    }
+    await tablesTable.put(activeTable);
+
+    await tx.done;
+  }
+
+  async getRecordCount(table: DataSeries): Promise<number> {
+    await this.open();
+
+    return this.db!.count(await getActiveTableName(this.db!, table));
+  }
+
+  // Iterates over all the records in the given table in key order.
+  //
+  // Each batch is read in a separate transaction so that we don't hold a
+  // transaction open while the caller processes the records. As a result,
+  // updates made to the table while iterating may or may not be reflected in
+  // the output.
+  async *getRecordBatches<Name extends DataSeries>(
+    table: Name,
+    batchSize = 4000
+  ): AsyncIterableIterator<Array<JpdictSchema[Name]['value']>> {
+    await this.open();
+
+    const tableName = await getActiveTableName(this.db!, table);
+    let lastKey: JpdictSchema[Name]['key'] | undefined;
+    while (true) {
+      const range =
+        typeof lastKey !== 'undefined'
+          ? IDBKeyRange.lowerBound(lastKey, true)
+          : undefined;
+
+      const tx = this.db!.transaction(tableName);
+      const [keys, records] = await Promise.all([
+        tx.store.getAllKeys(range, batchSize),
+        tx.store.getAll(range, batchSize),
+      ]);
+      await tx.done;
+
+      if (!records.length) {
+        return;
+      }
+
+      yield records;
+
+      if (records.length < batchSize) {
+        return;
+      }
+
+      lastKey = keys[keys.length - 1];
+    }
+  }
+
   // Test API
   async _getKanji(kanji: Array<number>): Promise<Array<KanjiRecord>> {
     await this.open();
 
     const result: Array<KanjiRecord> = [];
     {
-      const tx = this.db!.transaction('kanji');
+      const tx = this.db!.transaction(
+        await getActiveTableName(this.db!, 'kanji')
+      );
       for (const c of kanji) {
         const record = await tx.store.get(c);
         if (record) {
@@ -450,6 +932,124 @@ export class JpdictStore {
   }
 }
 
+// IndexedDB doesn't tell us how much space a table takes up so we estimate it
+// from the number of records and the size of a sample of them.
+const SIZE_SAMPLE_COUNT = 100;
+
+async function estimateTableSize<Name extends DataSeries>(
+  table: IDBPObjectStore<
+    JpdictSchema,
+    ArrayLike<StoreNames<JpdictSchema>>,
+    Name,
+    'readwrite'
+  >
+): Promise<number> {
+  const count = await table.count();
+  if (!count) {
+    return 0;
+  }
+
+  const sample = await table.getAll(undefined, SIZE_SAMPLE_COUNT);
+  const sampleSize = sample.reduce(
+    (total, record) => total + JSON.stringify(record).length,
+    0
+  );
+
+  return Math.round((sampleSize / sample.length) * count);
+}
+
+async function putRecords<Name extends DataSeries>({
+  table,
+  put,
+  onProgress,
+  totalRecords,
+}: {
+  table: IDBPObjectStore<
+    JpdictSchema,
+    ArrayLike<StoreNames<JpdictSchema>>,
+    Name,
+    'readwrite'
+  >;
+  put: Array<JpdictSchema[Name]['value']>;
+  onProgress?: (params: { processed: number; total: number }) => void;
+  totalRecords: number;
+}) {
+  let processed = 0;
+
+  // Batch updates so we can report progress.
+  //
+  // 4,000 gives us enough granularity when dealing with small data sets
+  // like the kanji data (~13k records) while avoiding being too spammy with
+  // large data sets like the names data (~740k records).
+  const BATCH_SIZE = 4000;
+  while (put.length) {
+    const batch = put.splice(0, BATCH_SIZE);
+    const putPromises: Array<Promise<JpdictSchema[Name]['key']>> = [];
+    for (const record of batch) {
+      // The important thing here is NOT to wait on the result of put.
+      // This speeds up the operation by an order of magnitude or two and
+      // is Dexie's secret sauce.
+      //
+      // See: https://jsfiddle.net/birtles/vx4urLkw/17/
+      const putPromise = table.put(record);
+
+      // Add some extra logging directly on the put promise.
+      putPromise.catch((e) => {
+        if (e?.name !== 'AbortError') {
+          console.log('Got error putting record');
+          console.log(e, e?.name, e?.message);
+        }
+      });
+
+      // Note that we hold on to the original promise (NOT the result of the
+      // call to catch() above) so that the call to Promise.all below still
+      // rejects.
+      putPromises.push(putPromise);
+    }
+    await Promise.all(putPromises);
+
+    processed += batch.length;
+    if (onProgress) {
+      onProgress({ processed, total: totalRecords });
+    }
+  }
+}
+
+// Aborts the given transaction after an error putting records and returns the
+// error to throw.
+async function abortAfterPutError(
+  tx: IDBPTransaction<
+    JpdictSchema,
+    ArrayLike<StoreNames<JpdictSchema>>,
+    'readwrite'
+  >,
+  e: unknown
+): Promise<unknown> {
+  // Ignore the abort from the transaction
+  tx.done.catch(() => {});
+  try {
+    tx.abort();
+  } catch (_) {
+    // As above, ignore exceptions from aborting the transaction.
+  }
+
+  // We sometimes encounter a situation where Firefox throws an Error with
+  // an undefined message. All we have to go by is a user's screenshot that
+  // shows the following in the browser console:
+  //
+  //   Error: undefined
+  //
+  // We _think_ this happens in some cases where the disk space quota is
+  // exceeded so we try to detect that case and throw an actual
+  // QuotaExceededError instead.
+  if (isVeryGenericError(e) && (await atOrNearQuota())) {
+    console.log('Detected generic error masking a quota exceeded situation');
+    return new QuotaExceededError();
+  }
+
+  return e;
+}
+
 // We occasionally get these obscure errors when running IndexedDB in an
 // extension context where the error returned serializes as simply:
 //
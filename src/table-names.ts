@@ -0,0 +1,91 @@
+import { IDBPDatabase } from 'idb/with-async-ittr';
+
+import { DataSeries } from './data-series';
+import { JpdictSchema } from './store';
+
+// Each series is stored in one of several tables: one named after the series
+// (slot 0) and others with a '-b', '-c', or '-d' suffix (slots 1~3).
+//
+// At any time one table holds the live data, others may hold the data for
+// other languages we have downloaded (see the 'languages' table), and one of
+// the remaining tables is used to build up the data for a full update. Once
+// the full update is complete, we flip the pointer in the 'tables' table so
+// that readers switch to the new data all at once.
+export type TableSlot = 0 | 1 | 2 | 3;
+
+export const allTableSlots: ReadonlyArray<TableSlot> = [0, 1, 2, 3];
+
+const TABLE_SUFFIXES = ['', '-b', '-c', '-d'] as const;
+
+// Returns the name of the object store for the given series and slot.
+//
+// All the tables for a series have the same schema so, for convenience, we
+// type the result as the name of the primary table.
+export function getTableName<Name extends DataSeries>(
+  series: Name,
+  slot: TableSlot
+): Name {
+  return `${series}${TABLE_SUFFIXES[slot]}` as Name;
+}
+
+export async function getActiveSlot(
+  db: IDBPDatabase<JpdictSchema>,
+  series: DataSeries
+): Promise<TableSlot> {
+  const record = await db.get('tables', series);
+  return record?.slot ?? 0;
+}
+
+export async function getActiveTableName<Name extends DataSeries>(
+  db: IDBPDatabase<JpdictSchema>,
+  series: Name
+): Promise<Name> {
+  return getTableName(series, await getActiveSlot(db, series));
+}
+
+// Returns the slots holding the data for languages other than the live one.
+export async function getLanguageSlots(
+  db: IDBPDatabase<JpdictSchema>,
+  series: DataSeries
+): Promise<Array<TableSlot>> {
+  const records = await db.getAll(
+    'languages',
+    IDBKeyRange.bound([series], [series, []])
+  );
+  return records.map((record) => record.slot);
+}
+
+// Returns the slot to use for building up the data for a full update, i.e.
+// the first slot that is neither live nor holding the data for another
+// language.
+export async function getShadowSlot(
+  db: IDBPDatabase<JpdictSchema>,
+  series: DataSeries
+): Promise<TableSlot> {
+  const usedSlots = [
+    await getActiveSlot(db, series),
+    ...(await getLanguageSlots(db, series)),
+  ];
+  const slot = allTableSlots.find((slot) => !usedSlots.includes(slot));
+  if (typeof slot === 'undefined') {
+    throw new Error(`No free table for ${series} data`);
+  }
+  return slot;
+}
+
+// Returns the name of the table holding the data for the given language if we
+// have it, or the live table otherwise.
+export async function getLanguageTableName<Name extends DataSeries>(
+  db: IDBPDatabase<JpdictSchema>,
+  series: Name,
+  lang?: string
+): Promise<Name> {
+  if (lang) {
+    const record = await db.get('languages', [series, lang]);
+    if (record) {
+      return getTableName(series, record.slot);
+    }
+  }
+
+  return getActiveTableName(db, series);
+}
@@ -1,11 +1,25 @@
 import { DataSeries } from './data-series';
 import { DataVersion } from './data-version';
+import { PlannedFile, QuarantinedRecord } from './download';
 
 export type StartAction = {
   type: 'start';
   series: DataSeries;
 };
 
+export type StartMigrationAction = {
+  type: 'startmigration';
+  series: DataSeries;
+  fromVersion: DataVersion;
+  majorVersion: number;
+};
+
+export type PlanAction = {
+  type: 'plan';
+  series: DataSeries;
+  files: Array<PlannedFile>;
+};
+
 export type StartDownloadAction = {
   type: 'startdownload';
   series: DataSeries;
@@ -16,6 +30,17 @@ export type ProgressAction = {
   type: 'progress';
   loaded: number;
   total: number;
+  // Byte-based progress (only available while downloading)
+  bytesLoaded?: number;
+  bytesTotal?: number;
+  bytesPerSecond?: number;
+  secondsRemaining?: number;
+};
+
+export type QuarantineAction = {
+  type: 'quarantine';
+  series: DataSeries;
+  record: QuarantinedRecord;
 };
 
 export type FinishDownloadAction = {
@@ -28,6 +53,14 @@ export type FinishPatchAction = {
   version: DataVersion;
 };
 
+export type PauseAction = {
+  type: 'pause';
+};
+
+export type ResumeAction = {
+  type: 'resume';
+};
+
 export type FinishAction = {
   type: 'finish';
   checkDate: Date;
@@ -40,9 +73,14 @@ export type ErrorAction = {
 
 export type UpdateAction =
   | StartAction
+  | StartMigrationAction
+  | PlanAction
   | StartDownloadAction
   | ProgressAction
+  | QuarantineAction
   | FinishDownloadAction
   | FinishPatchAction
+  | PauseAction
+  | ResumeAction
   | FinishAction
   | ErrorAction;
@@ -0,0 +1,173 @@
+import { AbortError } from './abort-error';
+import { DataSeries, MajorDataSeries } from './data-series';
+import { DataVersion } from './data-version';
+import { UpdateState } from './update-state';
+
+// Coordinates updates between different contexts (e.g. tabs or workers) that
+// share the same database.
+//
+// Without this, two contexts could update the same series at the same time
+// and fight over the database. Instead, a context must hold the update lock
+// for a series (using the Web Locks API, where available) in order to update
+// it, and it broadcasts the state of the update so that other contexts can
+// reflect it.
+
+function getLockManager(): LockManager | undefined {
+  return typeof navigator !== 'undefined' && 'locks' in navigator
+    ? navigator.locks
+    : undefined;
+}
+
+function getLockName(series: MajorDataSeries): string {
+  return `jpdict-update-${series}`;
+}
+
+// Runs `callback` while holding the update lock for the given series.
+//
+// If another context holds the lock, `onWait` is called and we wait until the
+// lock is released (or `signal` is aborted).
+export async function withUpdateLock<T>({
+  series,
+  signal,
+  onWait,
+  callback,
+}: {
+  series: MajorDataSeries;
+  signal?: AbortSignal;
+  onWait?: () => void;
+  callback: () => Promise<T>;
+}): Promise<T> {
+  const locks = getLockManager();
+  if (!locks) {
+    return callback();
+  }
+
+  // Try to get the lock without waiting first so that we can tell the caller
+  // if we have to wait.
+  const name = getLockName(series);
+  const result: { value: T } | null = await locks.request(
+    name,
+    { ifAvailable: true },
+    async (lock) => (lock ? { value: await callback() } : null)
+  );
+  if (result) {
+    return result.value;
+  }
+
+  onWait?.();
+
+  try {
+    return await locks.request(name, { signal }, callback);
+  } catch (e) {
+    if (signal?.aborted) {
+      throw new AbortError();
+    }
+    throw e;
+  }
+}
+
+// Waits for the update lock for the given series and holds it until the
+// returned function is called.
+export async function holdUpdateLock(
+  series: MajorDataSeries
+): Promise<() => void> {
+  let release: () => void = () => {};
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    withUpdateLock({
+      series,
+      callback: () => {
+        resolve();
+        return released;
+      },
+    }).catch(reject);
+  });
+
+  return release;
+}
+
+// Waits until no other context holds the update lock for the given series and
+// then runs `callback` while holding it.
+//
+// Returns false (without running `callback`) if the Web Locks API is not
+// available since we then have no way of telling when another context has
+// finished updating the series.
+export async function whenUpdateLockFree(
+  series: MajorDataSeries,
+  callback: () => Promise<void>
+): Promise<boolean> {
+  const locks = getLockManager();
+  if (!locks) {
+    return false;
+  }
+
+  await locks.request(getLockName(series), callback);
+  return true;
+}
+
+// Runs `callback` if no other context holds the update lock for the given
+// series. Returns true if `callback` was run.
+export async function tryWithUpdateLock(
+  series: MajorDataSeries,
+  callback: () => Promise<void>
+): Promise<boolean> {
+  const locks = getLockManager();
+  if (!locks) {
+    await callback();
+    return true;
+  }
+
+  return locks.request(
+    getLockName(series),
+    { ifAvailable: true },
+    async (lock) => {
+      if (!lock) {
+        return false;
+      }
+      await callback();
+      return true;
+    }
+  );
+}
+
+// The state of a series, as broadcast by the context updating it.
+export type SeriesStateMessage = {
+  type: 'seriesstate';
+  series: DataSeries;
+  version: DataVersion | null;
+  updateState: UpdateState;
+};
+
+const CHANNEL_NAME = 'jpdict-updates';
+
+export function openUpdateChannel(
+  onMessage: (message: SeriesStateMessage) => void
+): BroadcastChannel | undefined {
+  if (typeof BroadcastChannel === 'undefined') {
+    return undefined;
+  }
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent) => {
+    if (isSeriesStateMessage(event.data)) {
+      onMessage(event.data);
+    }
+  };
+
+  return channel;
+}
+
+function isSeriesStateMessage(a: any): a is SeriesStateMessage {
+  return (
+    typeof a === 'object' &&
+    a !== null &&
+    a.type === 'seriesstate' &&
+    typeof a.series === 'string' &&
+    typeof a.updateState === 'object' &&
+    a.updateState !== null &&
+    typeof a.version === 'object'
+  );
+}
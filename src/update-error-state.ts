@@ -1,4 +1,4 @@
-import { DownloadError } from './download';
+import { DownloadError, DownloadErrorDiagnostics } from './download';
 
 // A flattened representation of error information suitable for postMessaging.
 //
@@ -10,6 +10,7 @@ export interface UpdateErrorState {
   message: string;
   code?: number;
   url?: string;
+  diagnostics?: DownloadErrorDiagnostics;
   nextRetry?: Date;
   retryCount?: number;
 }
@@ -28,6 +29,7 @@ export function toUpdateErrorState({
     message: error.message,
     code: error instanceof DownloadError ? error.code : undefined,
     url: error instanceof DownloadError ? error.url : undefined,
+    diagnostics: error instanceof DownloadError ? error.diagnostics : undefined,
     nextRetry,
     retryCount,
   };
@@ -1,7 +1,42 @@
-import { UpdateAction } from './update-actions';
-import { UpdateState } from './update-state';
+import { PlannedFile } from './download';
+import { ProgressAction, UpdateAction } from './update-actions';
+import { UpdatePlanProgress, UpdateState } from './update-state';
 
 export function reducer(state: UpdateState, action: UpdateAction): UpdateState {
+  // While paused, keep track of any changes (e.g. progress from writing the
+  // records we have already read) so that we can apply them when we resume.
+  if (
+    state.state === 'paused' &&
+    action.type !== 'pause' &&
+    action.type !== 'resume' &&
+    action.type !== 'finish' &&
+    action.type !== 'error'
+  ) {
+    const resumeState = reducer(state.resumeState, action);
+    return resumeState.state === 'idle' || resumeState.state === 'paused'
+      ? resumeState
+      : { ...state, resumeState };
+  }
+
+  // Similarly, while migrating to a new major version, track the progress of
+  // the download within the migration state.
+  if (
+    state.state === 'migrating' &&
+    action.type !== 'start' &&
+    action.type !== 'startmigration' &&
+    action.type !== 'pause' &&
+    action.type !== 'resume' &&
+    action.type !== 'finish' &&
+    action.type !== 'error'
+  ) {
+    const migrationState = reducer(state.migrationState, action);
+    return migrationState.state === 'checking' ||
+      migrationState.state === 'downloading' ||
+      migrationState.state === 'updatingdb'
+      ? { ...state, migrationState }
+      : migrationState;
+  }
+
   switch (action.type) {
     case 'start':
       return {
@@ -10,14 +45,63 @@ export function reducer(state: UpdateState, action: UpdateAction): UpdateState {
         lastCheck: state.lastCheck,
       };
 
-    case 'startdownload':
+    case 'startmigration':
+      if (
+        state.state !== 'checking' &&
+        state.state !== 'downloading' &&
+        state.state !== 'updatingdb'
+      ) {
+        return state;
+      }
+
+      return {
+        state: 'migrating',
+        series: action.series,
+        fromVersion: action.fromVersion,
+        majorVersion: action.majorVersion,
+        migrationState: state,
+        lastCheck: state.lastCheck,
+      };
+
+    case 'plan':
+      console.assert(
+        state.state === 'checking',
+        'Should only get a plan action when we are checking'
+      );
+      if (state.state !== 'checking') {
+        return state;
+      }
+
+      return {
+        state: 'checking',
+        series: action.series,
+        files: action.files,
+        lastCheck: state.lastCheck,
+      };
+
+    case 'startdownload': {
+      const files =
+        state.state !== 'idle' &&
+        state.state !== 'paused' &&
+        state.state !== 'migrating'
+          ? state.files
+          : undefined;
+      const fileIndex = files?.findIndex(
+        (file) =>
+          file.major === action.version.major &&
+          file.minor === action.version.minor &&
+          file.patch === action.version.patch
+      );
+
       return {
         state: 'downloading',
         series: action.series,
         downloadVersion: action.version,
         progress: 0,
+        ...getPlanProgress(files, fileIndex, 0),
         lastCheck: state.lastCheck,
       };
+    }
 
     case 'progress':
       console.assert(
@@ -28,13 +112,29 @@ export function reducer(state: UpdateState, action: UpdateAction): UpdateState {
         return state;
       }
 
-      return {
-        state: state.state,
-        series: state.series,
-        downloadVersion: state.downloadVersion,
-        progress: action.total ? action.loaded / action.total : 0,
-        lastCheck: state.lastCheck,
-      };
+      if (state.state === 'updatingdb') {
+        return {
+          state: state.state,
+          series: state.series,
+          downloadVersion: state.downloadVersion,
+          progress: action.total ? action.loaded / action.total : 0,
+          ...getPlanProgress(state.files, state.fileIndex, 1),
+          lastCheck: state.lastCheck,
+        };
+      }
+
+      {
+        const progress = action.total ? action.loaded / action.total : 0;
+        return {
+          state: state.state,
+          series: state.series,
+          downloadVersion: state.downloadVersion,
+          progress,
+          ...getByteProgress(action),
+          ...getPlanProgress(state.files, state.fileIndex, progress),
+          lastCheck: state.lastCheck,
+        };
+      }
 
     case 'finishdownload':
       console.assert(
@@ -50,12 +150,29 @@ export function reducer(state: UpdateState, action: UpdateAction): UpdateState {
         series: state.series,
         downloadVersion: state.downloadVersion,
         progress: 0,
+        ...getPlanProgress(state.files, state.fileIndex, 1),
         lastCheck: state.lastCheck,
       };
 
+    case 'quarantine':
     case 'finishpatch':
       return state;
 
+    case 'pause':
+      if (state.state === 'idle' || state.state === 'paused') {
+        return state;
+      }
+
+      return {
+        state: 'paused',
+        series: state.series,
+        resumeState: state,
+        lastCheck: state.lastCheck,
+      };
+
+    case 'resume':
+      return state.state === 'paused' ? state.resumeState : state;
+
     case 'finish':
       return { state: 'idle', lastCheck: action.checkDate };
 
@@ -63,3 +180,54 @@ export function reducer(state: UpdateState, action: UpdateAction): UpdateState {
       return { state: 'idle', lastCheck: action.checkDate || state.lastCheck };
   }
 }
+
+function getByteProgress(
+  action: ProgressAction
+): Partial<Pick<ProgressAction, ByteProgressField>> {
+  const result: Partial<Pick<ProgressAction, ByteProgressField>> = {};
+  for (const field of BYTE_PROGRESS_FIELDS) {
+    if (typeof action[field] !== 'undefined') {
+      result[field] = action[field];
+    }
+  }
+  return result;
+}
+
+const BYTE_PROGRESS_FIELDS = [
+  'bytesLoaded',
+  'bytesTotal',
+  'bytesPerSecond',
+  'secondsRemaining',
+] as const;
+
+type ByteProgressField = typeof BYTE_PROGRESS_FIELDS[number];
+
+// Calculates the progress across all the files we plan to download given the
+// index of the current file and the progress within that file.
+function getPlanProgress(
+  files: Array<PlannedFile> | undefined,
+  fileIndex: number | undefined,
+  fileProgress: number
+): UpdatePlanProgress {
+  if (!files || typeof fileIndex === 'undefined' || fileIndex < 0) {
+    return {};
+  }
+
+  // Weight each file by its size if we know the sizes of all the files,
+  // otherwise treat them equally.
+  const weights = files.every((file) => typeof file.size === 'number')
+    ? files.map((file) => file.size!)
+    : files.map(() => 1);
+  const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+  const completedWeight = weights
+    .slice(0, fileIndex)
+    .reduce((total, weight) => total + weight, 0);
+
+  return {
+    files,
+    fileIndex,
+    totalProgress: totalWeight
+      ? (completedWeight + weights[fileIndex] * fileProgress) / totalWeight
+      : 0,
+  };
+}
@@ -1,5 +1,6 @@
 import { DataSeries } from './data-series';
 import { DataVersion } from './data-version';
+import { PlannedFile } from './download';
 
 // Last time we checked, if ever, we were up-to-date.
 // - The `lastCheck` value specifies when we last checked.
@@ -10,23 +11,47 @@ export type IdleUpdateState = {
 
 // We are still downloading the version metadata so we don't know yet whether
 // or not we are up-to-date.
+// - The `files` value, once we know it, specifies the files we are going to
+//   download.
 export type CheckingUpdateState = {
   state: 'checking';
   series: DataSeries;
+  files?: Array<PlannedFile>;
   lastCheck: Date | null;
 };
 
+// Progress across all the files we are downloading for an update.
+// - The `files` value specifies all the files we are going to download.
+// - The `fileIndex` value specifies the index within `files` of the current
+//   file.
+// - The `totalProgress` value specifies how far we are through downloading
+//   all the files (weighted by file size, if known).
+export type UpdatePlanProgress = {
+  files?: Array<PlannedFile>;
+  fileIndex?: number;
+  totalProgress?: number;
+};
+
 // Downloading an update.
 // - The `downloadVersion` value specifies the version we are currently
 //   downloading.
 // - The `progress` value specifies how far we are through the update.
+// - The `bytesLoaded` and `bytesTotal` values, if available, specify how much
+//   of the file being downloaded we have received in bytes (`bytesTotal` is
+//   only set when the server tells us the file size).
+// - The `bytesPerSecond` and `secondsRemaining` values, if available, give the
+//   estimated transfer rate and time until the file is downloaded.
 export type DownloadingUpdateState = {
   state: 'downloading';
   series: DataSeries;
   downloadVersion: DataVersion;
   progress: number;
+  bytesLoaded?: number;
+  bytesTotal?: number;
+  bytesPerSecond?: number;
+  secondsRemaining?: number;
   lastCheck: Date | null;
-};
+} & UpdatePlanProgress;
 
 // Downloading has finished and we are now applying an update to the local
 // database.
@@ -36,10 +61,45 @@ export type UpdatingDbUpdateState = {
   downloadVersion: DataVersion;
   progress: number;
   lastCheck: Date | null;
+} & UpdatePlanProgress;
+
+// Replacing the data for a series with a new major version of the data (e.g.
+// because the library now expects a different data format).
+// - The `fromVersion` value specifies the version currently stored. It
+//   continues to be used until the new major version has been completely
+//   downloaded and applied.
+// - The `majorVersion` value specifies the major version being downloaded.
+// - The `migrationState` value specifies the progress of the download.
+export type MigratingUpdateState = {
+  state: 'migrating';
+  series: DataSeries;
+  fromVersion: DataVersion;
+  majorVersion: number;
+  migrationState:
+    | CheckingUpdateState
+    | DownloadingUpdateState
+    | UpdatingDbUpdateState;
+  lastCheck: Date | null;
+};
+
+// An update that has been paused.
+// - The `resumeState` value specifies the state to return to when the update
+//   is resumed.
+export type PausedUpdateState = {
+  state: 'paused';
+  series: DataSeries;
+  resumeState:
+    | CheckingUpdateState
+    | DownloadingUpdateState
+    | UpdatingDbUpdateState
+    | MigratingUpdateState;
+  lastCheck: Date | null;
 };
 
 export type UpdateState =
   | IdleUpdateState
   | CheckingUpdateState
   | DownloadingUpdateState
-  | UpdatingDbUpdateState;
+  | UpdatingDbUpdateState
+  | MigratingUpdateState
+  | PausedUpdateState;
@@ -431,6 +431,58 @@ describe('updateWithRetry', function () {
     assert.equal(db.kanji.version!.lang, 'fr');
   });
 
+  it('should not start a competing update while the series is paused', async () => {
+    fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_INFO);
+    fetchMock.once('end:.ljson', 404);
+    fetchMock.mock(
+      'end:kanji-rc-en-4.0.0.ljson',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":0}
+`
+    );
+    fetchMock.mock(
+      'end:radicals-rc-en-4.0.0.ljson',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":0}
+`
+    );
+
+    // Wait for the first attempt to fail so that a retry is scheduled
+    await new Promise((resolve) => {
+      updateWithRetry({
+        db,
+        series: 'kanji',
+        lang: 'en',
+        onUpdateError: resolve,
+      });
+    });
+
+    // Start another update and pause it
+    const paused = new Promise<void>((resolve) => {
+      db.addChangeListener(() => {
+        if (db.kanji.updateState.state === 'paused') {
+          resolve();
+        }
+      });
+    });
+    const update = db.update({ series: 'kanji', lang: 'en' });
+    db.pauseUpdate({ series: 'kanji' });
+    await paused;
+
+    // Forcing an update should leave the paused update alone
+    await updateWithRetry({
+      db,
+      series: 'kanji',
+      lang: 'en',
+      forceUpdate: true,
+    });
+    assert.equal(db.kanji.updateState.state, 'paused');
+
+    db.resumeUpdate({ series: 'kanji' });
+    await update;
+    assert.equal(db.kanji.version!.major, 4);
+
+    await cancelUpdateWithRetry({ db, series: 'kanji' });
+  });
+
   it('should allow canceling the retries', async () => {
     fetchMock.mock('end:jpdict-rc-en-version.json', VERSION_INFO);
     fetchMock.once('end:.ljson', 404);
@@ -695,7 +747,7 @@ describe('updateWithRetry', function () {
     // We need to actually stub out the store method since we want the DB
     // update state to reach 'updatingdb' since we want to test that when
     // we reach that condition we DON'T clear the retryCount.
-    const stub = sinon.stub(db.store, 'bulkUpdateTable');
+    const stub = sinon.stub(db.store, 'swapShadowTable');
     stub.throws(constraintError);
 
     const errors: Array<Error> = [];
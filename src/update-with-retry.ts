@@ -6,6 +6,7 @@ import {
   cancelIdleCallback,
 } from './request-idle-callback';
 import { getUpdateKey } from './update-key';
+import { UpdateState } from './update-state';
 
 interface RetryStatus {
   lang: string;
@@ -123,11 +124,12 @@ export async function updateWithRetry({
 
     // And even if we have a timeout, if we are currently running the update,
     // just let it run but reset the timeout.
-    const isRunningUpdate =
-      series === 'kanji'
-        ? db.kanji.updateState.state !== 'idle' ||
-          db.radicals.updateState.state !== 'idle'
-        : db[series].updateState.state;
+    //
+    // Note that a paused update counts as running. Starting another update
+    // would cancel it and it is up to the caller to resume it.
+    const isRunningUpdate = getSeriesUpdatePhases(db, series).some(
+      (phase) => phase !== 'idle'
+    );
     if (isRunningUpdate) {
       inProgressUpdates.set(updateKey, {
         ...currentRetryStatus,
@@ -419,11 +421,7 @@ function onDatabaseChange({
   // error (i.e. in the phase AFTER 'updatingdb').
   const updateKey = getUpdateKey(db, series);
   const currentRetryStatus = inProgressUpdates.get(updateKey);
-  const isUpdatingDb =
-    series === 'kanji'
-      ? db.kanji.updateState.state === 'updatingdb' ||
-        db.radicals.updateState.state === 'updatingdb'
-      : db[series].updateState.state === 'updatingdb';
+  const isUpdatingDb = getSeriesUpdatePhases(db, series).includes('updatingdb');
   if (
     currentRetryStatus &&
     currentRetryStatus.retryIntervalMs &&
@@ -437,6 +435,35 @@ function onDatabaseChange({
   }
 }
 
+// Returns the phase of the update (e.g. 'downloading') for each of the data
+// series that make up the given major series.
+//
+// Unlike the `state` of the update state, this looks through the 'paused' and
+// 'migrating' states to the phase of the underlying update.
+function getSeriesUpdatePhases(
+  db: JpdictDatabase,
+  series: MajorDataSeries
+): Array<UpdateState['state']> {
+  const updateStates =
+    series === 'kanji'
+      ? [db.kanji.updateState, db.radicals.updateState]
+      : [db[series].updateState];
+  return updateStates.map(getUpdatePhase);
+}
+
+function getUpdatePhase(updateState: UpdateState): UpdateState['state'] {
+  switch (updateState.state) {
+    case 'paused':
+      return getUpdatePhase(updateState.resumeState);
+
+    case 'migrating':
+      return getUpdatePhase(updateState.migrationState);
+
+    default:
+      return updateState.state;
+  }
+}
+
 export function cancelUpdateWithRetry({
   db,
   series,
@@ -3,6 +3,8 @@ import { assert } from 'chai';
 import { DataVersion } from './data-version';
 import {
   DeletionEvent,
+  DownloadError,
+  DownloadErrorCode,
   DownloadEvent,
   EntryEvent,
   ProgressEvent,
@@ -10,6 +12,7 @@ import {
   VersionEndEvent,
 } from './download';
 import { KanjiEntryLine, KanjiDeletionLine } from './kanji';
+import { KanjiRecord } from './records';
 import { JpdictStore } from './store';
 import { UpdateAction } from './update-actions';
 import { updateKanji } from './update';
@@ -414,8 +417,464 @@ describe('updateKanji', function () {
       },
     ]);
   });
+
+  it('should apply a bridge from a previous minor version as a patch', async () => {
+    await updateKanji({
+      downloadIterator: mockStream(
+        { ...VERSION_1_0_0, type: 'version' },
+        KANJI_ENTRY_1,
+        KANJI_ENTRY_2,
+        { type: 'versionend' }
+      ),
+      lang: 'en',
+      store,
+      callback,
+    });
+
+    await updateKanji({
+      downloadIterator: mockStream(
+        {
+          ...VERSION_1_0_0,
+          minor: 1,
+          type: 'version',
+          from: { major: 1, minor: 0, patch: 0 },
+        },
+        { type: 'deletion', c: '㐂', deleted: true },
+        KANJI_ENTRY_3,
+        { type: 'versionend' }
+      ),
+      lang: 'en',
+      store,
+      callback,
+    });
+
+    assert.deepEqual(
+      (await store._getKanji([13314, 13318, 13358])).map((record) => record.c),
+      [13318, 13358]
+    );
+    assert.deepEqual(await store.getDataVersion('kanji'), {
+      ...VERSION_1_0_0,
+      minor: 1,
+    });
+  });
+
+  it('should continue to return the existing data while a full update is in progress', async () => {
+    await updateKanji({
+      downloadIterator: mockStream(
+        { ...VERSION_1_0_0, type: 'version' },
+        KANJI_ENTRY_1,
+        { type: 'versionend' }
+      ),
+      lang: 'en',
+      store,
+      callback,
+    });
+
+    let kanjiDuringUpdate: Array<KanjiRecord> | undefined;
+    let versionDuringUpdate: DataVersion | null | undefined;
+    async function* fullUpdateStream(): AsyncIterableIterator<KanjiDownloadEvent> {
+      yield { ...VERSION_1_0_0, minor: 1, type: 'version' };
+      yield KANJI_ENTRY_2;
+      kanjiDuringUpdate = await store._getKanji([13314, 13318]);
+      versionDuringUpdate = await store.getDataVersion('kanji');
+      yield { type: 'versionend' };
+    }
+
+    await updateKanji({
+      downloadIterator: fullUpdateStream(),
+      lang: 'en',
+      store,
+      callback,
+    });
+
+    assert.deepEqual(
+      kanjiDuringUpdate?.map((record) => record.c),
+      [13314]
+    );
+    assert.deepEqual(versionDuringUpdate, VERSION_1_0_0);
+
+    assert.deepEqual(
+      (await store._getKanji([13314, 13318])).map((record) => record.c),
+      [13318]
+    );
+    assert.deepEqual(await store.getDataVersion('kanji'), {
+      ...VERSION_1_0_0,
+      minor: 1,
+    });
+  });
+
+  it('should leave the existing data intact when a full update is interrupted', async () => {
+    await updateKanji({
+      downloadIterator: mockStream(
+        { ...VERSION_1_0_0, type: 'version' },
+        KANJI_ENTRY_1,
+        { type: 'versionend' }
+      ),
+      lang: 'en',
+      store,
+      callback,
+    });
+
+    async function* interruptedStream(): AsyncIterableIterator<KanjiDownloadEvent> {
+      yield { ...VERSION_1_0_0, minor: 1, type: 'version' };
+      yield KANJI_ENTRY_2;
+      throw new Error('Connection lost');
+    }
+
+    let error: unknown;
+    try {
+      await updateKanji({
+        downloadIterator: interruptedStream(),
+        lang: 'en',
+        store,
+        callback,
+      });
+    } catch (e) {
+      error = e;
+    }
+    assert.instanceOf(error, Error);
+
+    assert.deepEqual(
+      (await store._getKanji([13314, 13318])).map((record) => record.c),
+      [13314]
+    );
+    assert.deepEqual(await store.getDataVersion('kanji'), VERSION_1_0_0);
+
+    // A subsequent full update should not pick up the partial data
+    await updateKanji({
+      downloadIterator: mockStream(
+        { ...VERSION_1_0_0, minor: 2, type: 'version' },
+        { type: 'versionend' }
+      ),
+      lang: 'en',
+      store,
+      callback,
+    });
+
+    assert.deepEqual(await store._getKanji([13314, 13318]), []);
+  });
+
+  it('should apply patches in chunks when a chunk size is set', async () => {
+    await updateKanji({
+      downloadIterator: mockStream(
+        { ...VERSION_1_0_0, type: 'version' },
+        KANJI_ENTRY_1,
+        { type: 'versionend' }
+      ),
+      lang: 'en',
+      store,
+      callback,
+    });
+
+    let kanjiDuringUpdate: Array<KanjiRecord> | undefined;
+    let versionDuringUpdate: DataVersion | null | undefined;
+    async function* patchStream(): AsyncIterableIterator<KanjiDownloadEvent> {
+      yield { ...VERSION_1_0_0, patch: 1, type: 'version' };
+      yield KANJI_ENTRY_2;
+      yield { type: 'deletion', c: '㐂', deleted: true };
+      kanjiDuringUpdate = await store._getKanji([13314, 13318]);
+      versionDuringUpdate = await store.getDataVersion('kanji');
+      yield { ...KANJI_ENTRY_3 };
+      yield { type: 'versionend' };
+    }
+
+    await updateKanji({
+      downloadIterator: patchStream(),
+      lang: 'en',
+      store,
+      callback,
+      chunkSize: 2,
+    });
+
+    // The first chunk should have been applied before the patch was complete
+    // but without updating the version.
+    assert.deepEqual(
+      kanjiDuringUpdate?.map((record) => record.c),
+      [13318]
+    );
+    assert.deepEqual(versionDuringUpdate, VERSION_1_0_0);
+
+    assert.deepEqual(
+      (await store._getKanji([13314, 13318, 13358])).map((record) => record.c),
+      [13318, 13358]
+    );
+    assert.deepEqual(await store.getDataVersion('kanji'), {
+      ...VERSION_1_0_0,
+      patch: 1,
+    });
+    assert.isUndefined(await store.getCheckpoint('kanji'));
+  });
+
+  it('should resume an interrupted patch from the last committed chunk', async () => {
+    await updateKanji({
+      downloadIterator: mockStream(
+        { ...VERSION_1_0_0, type: 'version' },
+        KANJI_ENTRY_1,
+        { type: 'versionend' }
+      ),
+      lang: 'en',
+      store,
+      callback,
+    });
+
+    async function* interruptedStream(): AsyncIterableIterator<KanjiDownloadEvent> {
+      yield { ...VERSION_1_0_0, patch: 1, type: 'version' };
+      yield KANJI_ENTRY_2;
+      yield KANJI_ENTRY_3;
+      throw new Error('Connection lost');
+    }
+
+    try {
+      await updateKanji({
+        downloadIterator: interruptedStream(),
+        lang: 'en',
+        store,
+        callback,
+        chunkSize: 1,
+      });
+    } catch (_e) {
+      // Ignore
+    }
+
+    assert.deepEqual(await store.getDataVersion('kanji'), VERSION_1_0_0);
+    assert.deepInclude(await store.getCheckpoint('kanji'), {
+      series: 'kanji',
+      recordsCommitted: 2,
+    });
+
+    // If the records we already committed are skipped, the changed meaning
+    // below should NOT be applied.
+    await updateKanji({
+      downloadIterator: mockStream(
+        { ...VERSION_1_0_0, patch: 1, type: 'version' },
+        KANJI_ENTRY_2,
+        { ...KANJI_ENTRY_3, m: ['to help'] },
+        { type: 'deletion', c: '㐂', deleted: true },
+        { type: 'versionend' }
+      ),
+      lang: 'en',
+      store,
+      callback,
+      chunkSize: 1,
+    });
+
+    const result = await store._getKanji([13314, 13318, 13358]);
+    assert.deepEqual(
+      result.map((record) => record.c),
+      [13318, 13358]
+    );
+    assert.deepEqual(result[1].m, KANJI_ENTRY_3.m);
+    assert.deepEqual(await store.getDataVersion('kanji'), {
+      ...VERSION_1_0_0,
+      patch: 1,
+    });
+    assert.isUndefined(await store.getCheckpoint('kanji'));
+  });
+
+  it('should resume an interrupted full update from the last committed chunk', async () => {
+    async function* interruptedStream(): AsyncIterableIterator<KanjiDownloadEvent> {
+      yield { ...VERSION_1_0_0, type: 'version' };
+      yield KANJI_ENTRY_1;
+      yield KANJI_ENTRY_2;
+      throw new Error('Connection lost');
+    }
+
+    try {
+      await updateKanji({
+        downloadIterator: interruptedStream(),
+        lang: 'en',
+        store,
+        callback,
+        chunkSize: 1,
+      });
+    } catch (_e) {
+      // Ignore
+    }
+
+    assert.isNull(await store.getDataVersion('kanji'));
+    assert.deepEqual(await store._getKanji([13314, 13318]), []);
+
+    await updateKanji({
+      downloadIterator: mockStream(
+        { ...VERSION_1_0_0, type: 'version' },
+        KANJI_ENTRY_1,
+        { ...KANJI_ENTRY_2, m: ['to help'] },
+        KANJI_ENTRY_3,
+        { type: 'versionend' }
+      ),
+      lang: 'en',
+      store,
+      callback,
+      chunkSize: 1,
+    });
+
+    const result = await store._getKanji([13314, 13318, 13358]);
+    assert.deepEqual(
+      result.map((record) => record.c),
+      [13314, 13318, 13358]
+    );
+    assert.deepEqual(result[1].m, KANJI_ENTRY_2.m);
+    assert.deepEqual(await store.getDataVersion('kanji'), VERSION_1_0_0);
+    assert.isUndefined(await store.getCheckpoint('kanji'));
+  });
+
+  it('should drop the records written for a file that fails its checksum', async () => {
+    async function* corruptStream(): AsyncIterableIterator<KanjiDownloadEvent> {
+      yield { ...VERSION_1_0_0, type: 'version', hasChecksum: true };
+      yield { ...KANJI_ENTRY_1, m: ['tampered'] };
+      yield KANJI_ENTRY_2;
+      throw new DownloadError(
+        { code: DownloadErrorCode.DatabaseFileChecksumMismatch },
+        'Bad checksum'
+      );
+    }
+
+    let error: unknown;
+    try {
+      await updateKanji({
+        downloadIterator: corruptStream(),
+        lang: 'en',
+        store,
+        callback,
+        chunkSize: 1,
+      });
+    } catch (e) {
+      error = e;
+    }
+    assert.instanceOf(error, DownloadError);
+    assert.isUndefined(await store.getCheckpoint('kanji'));
+
+    // The retry should write all the records again rather than resuming
+    await updateKanji({
+      downloadIterator: mockStream(
+        { ...VERSION_1_0_0, type: 'version', hasChecksum: true },
+        KANJI_ENTRY_1,
+        KANJI_ENTRY_2,
+        { type: 'versionend' }
+      ),
+      lang: 'en',
+      store,
+      callback,
+      chunkSize: 1,
+    });
+
+    const result = await store._getKanji([13314, 13318]);
+    assert.deepEqual(
+      result.map((record) => record.c),
+      [13314, 13318]
+    );
+    assert.deepEqual(result[0].m, KANJI_ENTRY_1.m);
+    assert.deepEqual(await store.getDataVersion('kanji'), VERSION_1_0_0);
+  });
+
+  it('should not resume a file with a checksum from a previous attempt', async () => {
+    async function* interruptedStream(): AsyncIterableIterator<KanjiDownloadEvent> {
+      yield { ...VERSION_1_0_0, type: 'version', hasChecksum: true };
+      yield { ...KANJI_ENTRY_1, m: ['tampered'] };
+      throw new Error('Connection lost');
+    }
+
+    try {
+      await updateKanji({
+        downloadIterator: interruptedStream(),
+        lang: 'en',
+        store,
+        callback,
+        chunkSize: 1,
+      });
+    } catch (_e) {
+      // Ignore
+    }
+
+    await updateKanji({
+      downloadIterator: mockStream(
+        { ...VERSION_1_0_0, type: 'version', hasChecksum: true },
+        KANJI_ENTRY_1,
+        { type: 'versionend' }
+      ),
+      lang: 'en',
+      store,
+      callback,
+      chunkSize: 1,
+    });
+
+    const result = await store._getKanji([13314]);
+    assert.deepEqual(result[0].m, KANJI_ENTRY_1.m);
+  });
+
+  it('should not apply patches with a checksum in chunks', async () => {
+    await updateKanji({
+      downloadIterator: mockStream(
+        { ...VERSION_1_0_0, type: 'version' },
+        KANJI_ENTRY_1,
+        { type: 'versionend' }
+      ),
+      lang: 'en',
+      store,
+      callback,
+    });
+
+    async function* corruptPatch(): AsyncIterableIterator<KanjiDownloadEvent> {
+      yield { ...VERSION_1_0_0, patch: 1, type: 'version', hasChecksum: true };
+      yield KANJI_ENTRY_2;
+      yield { type: 'deletion', c: '㐂', deleted: true };
+      throw new DownloadError(
+        { code: DownloadErrorCode.DatabaseFileChecksumMismatch },
+        'Bad checksum'
+      );
+    }
+
+    try {
+      await updateKanji({
+        downloadIterator: corruptPatch(),
+        lang: 'en',
+        store,
+        callback,
+        chunkSize: 1,
+      });
+    } catch (_e) {
+      // Ignore
+    }
+
+    assert.deepEqual(
+      (await store._getKanji([13314, 13318])).map((record) => record.c),
+      [13314]
+    );
+    assert.deepEqual(await store.getDataVersion('kanji'), VERSION_1_0_0);
+    assert.isUndefined(await store.getCheckpoint('kanji'));
+  });
 });
 
+const KANJI_ENTRY_1: KanjiEntryEvent = {
+  type: 'entry',
+  c: '㐂',
+  r: {},
+  m: [],
+  rad: { x: 1 },
+  refs: { nelson_c: 265, halpern_njecd: 2028 },
+  misc: { sc: 6 },
+};
+
+const KANJI_ENTRY_2: KanjiEntryEvent = {
+  type: 'entry',
+  c: '㐆',
+  r: {},
+  m: ['to follow'],
+  rad: { x: 4 },
+  refs: {},
+  misc: { sc: 6 },
+};
+
+const KANJI_ENTRY_3: KanjiEntryEvent = {
+  type: 'entry',
+  c: '㐮',
+  r: {},
+  m: ['to assist'],
+  rad: { x: 8 },
+  refs: {},
+  misc: { sc: 13 },
+};
+
 async function* mockStream(
   ...events: Array<KanjiDownloadEvent>
 ): AsyncIterableIterator<KanjiDownloadEvent> {
@@ -1,62 +1,96 @@
 import { DataSeries } from './data-series';
 import { DataVersion } from './data-version';
-import { DownloadEvent } from './download';
+import {
+  DownloadError,
+  DownloadErrorCode,
+  DownloadEvent,
+  Version,
+} from './download';
 import { KanjiEntryLine, KanjiDeletionLine } from './kanji';
 import { RadicalEntryLine, RadicalDeletionLine } from './radicals';
 import { NameEntryLine, NameDeletionLine } from './names';
 import { KanjiRecord, RadicalRecord, NameRecord, WordRecord } from './records';
-import { JpdictStore } from './store';
+import { JpdictStore, UpdateCheckpoint, UpdatePhase } from './store';
 import { UpdateAction } from './update-actions';
 import { stripFields } from './utils';
-import { WordEntryLine, WordDeletionLine } from './words';
+import {
+  dropUnknownTags,
+  UnknownTagPolicy,
+  WordEntryLine,
+  WordDeletionLine,
+} from './words';
 
 export type UpdateCallback = (action: UpdateAction) => void;
 
-// Since IDB transactions are not tied to Promises properly yet and we can't
-// keep a transaction alive while waiting on a stream we are basically forced to
-// either:
+// Since IDB transactions are not tied to Promises properly yet we can't keep
+// a transaction alive while waiting on a stream.
 //
-// a) Abandon using transactions and live with the performance penalty of
-//    doing so and the possibility of the DB being in an inconsistent state
-//    (e.g. saying it is update-to-date with version X but actually having
-//    part of version X+1 applied).
+// For patches (which are typically small) we normally accumulate the changes
+// in memory and then apply them, along with the new version, in a single
+// transaction.
 //
-//    The latter is particularly bad when it comes to full updates since we
-//    could delete everything and then only partially apply the new update
-//    leaving us with an incomplete database.
+// (By not waiting for the success result of put actions, bulk putting can be
+// really fast. See https://jsfiddle.net/birtles/vx4urLkw/16/ for a rough
+// benchmark.)
 //
-// b) Abandon using transactions and create a parallel copy of the databases
-//    and swap them in when done, thus avoiding at least the possibility of
-//    being in an inconsistent state.
+// For full updates, however, accumulating all the data in memory is
+// problematic, particularly if we are downloading other dictionaries in
+// parallel. Furthermore, clearing the existing data and re-filling it in
+// separate transactions would leave the database empty or incomplete while
+// the update is in progress (or indefinitely, if it is interrupted).
 //
-//    Unfortunately this is basically impossible to do with IndexedDB.
-//    IndexedDB 2.0 allows renaming tables but only during version update so
-//    we'd have to update the schema every time we do a full update even if the
-//    update is only a data update.
+// Instead, we write full updates in chunks to a shadow table as we read them
+// and swap it in, together with the new version, once it is complete (see
+// JpdictStore.swapShadowTable). Until then, readers continue to see the
+// previous data.
 //
-// c) Accumulate all the data in memory first and then use regular
-//    transactions to apply it.
+// On devices with very little memory even buffering a patch may be too much,
+// so patches can also be applied in chunks (see the `chunkSize` option) at the
+// cost of readers seeing a partially-applied patch while the update is in
+// progress.
 //
-// Considering that by not waiting for the success result of push actions bulk
-// putting can be really fast, (c) is very attractive.
+// Each chunk is committed along with a checkpoint recording how much of the
+// file for the version has been applied so that if the update is interrupted,
+// the next attempt to apply the same version can skip the records that have
+// already been committed. The version itself is only updated once the last
+// chunk has been committed.
 //
-// (See https://jsfiddle.net/birtles/vx4urLkw/16/ for a rough benchmark.)
-//
-// However, we plan to use this in situations where we are downloading other
-// dictionaries in parallel. In that case we'd rather not accumulate all the
-// data for multiple dictionaries in memory at once. Ideally we'd like to batch
-// changes for full updates, write them to a temporary database, then swap it in
-// at the last moment but as described in (b) above that's really awkward with
-// IndexedDB. So, for now, we just have to recommend only updating once database
-// at a time to limit memory usage.
-
-export async function updateWords(
-  options: UpdateOptions<WordEntryLine, WordDeletionLine>
-) {
+// Files with a checksum, however, are only verified once they have been read
+// in full so we can't trust any chunk until then. For those files we never
+// apply patches to the live table in chunks and never resume from
+// a checkpoint (since the records committed by a previous attempt were never
+// verified). Furthermore, if a file turns out to be corrupt, we drop anything
+// we have written for it.
+
+// The default number of records to accumulate before writing them to the
+// shadow table during a full update.
+const DEFAULT_CHUNK_SIZE = 4000;
+
+export async function updateWords({
+  unknownTags = 'preserve',
+  ...options
+}: UpdateOptions<WordEntryLine, WordDeletionLine> & {
+  unknownTags?: UnknownTagPolicy;
+}) {
+  // Warn about each unrecognized tag only once per update since there are
+  // likely to be many records using any new tag.
+  const droppedTags = new Set<string>();
+  const toRecord = (entry: WordEntryLine): WordRecord => {
+    for (const { path, message } of dropUnknownTags(entry)) {
+      if (!droppedTags.has(message)) {
+        droppedTags.add(message);
+        console.warn(
+          `Dropping unrecognized tag from word ${entry.id} (${path}): ${message}`
+        );
+      }
+    }
+    return options.store.toWordRecord(entry);
+  };
+
   return update<WordEntryLine, WordDeletionLine, WordRecord, number>({
     ...options,
     series: 'words',
-    toRecord: options.store.toWordRecord,
+    toRecord: unknownTags === 'drop' ? toRecord : options.store.toWordRecord,
     getId: options.store.getIdForWordRecord,
   });
 }
@@ -99,8 +133,13 @@ export interface UpdateOptions<EntryLine, DeletionLine> {
     DownloadEvent<EntryLine, DeletionLine>
   >;
   lang: string;
+  source?: string;
   store: JpdictStore;
   callback: UpdateCallback;
+  // If set, patches are applied in chunks of (at most) this many records as
+  // they are read rather than being buffered until the whole patch has been
+  // read. Also sets the size of the chunks used for full updates.
+  chunkSize?: number;
   verbose?: boolean;
 }
 
@@ -113,10 +152,12 @@ async function update<
   downloadIterator,
   store,
   lang,
+  source,
   series,
   toRecord,
   getId,
   callback,
+  chunkSize,
   verbose = false,
 }: {
   downloadIterator: AsyncIterableIterator<
@@ -124,22 +165,104 @@ async function update<
   >;
   store: JpdictStore;
   lang: string;
+  source?: string;
   series: DataSeries;
   toRecord: (e: EntryLine) => RecordType;
   getId: (e: DeletionLine) => IdType;
   callback: UpdateCallback;
+  chunkSize?: number;
   verbose?: boolean;
 }) {
   let recordsToPut: Array<RecordType> = [];
   let recordsToDelete: Array<IdType> = [];
 
   let currentVersion: DataVersion | undefined;
+  let currentFrom: Version | undefined;
+  let isFullUpdate = false;
+  let hasChecksum = false;
+  let quarantinedRecords = 0;
+
+  // The number of records (entries, deletions, and quarantined records) read
+  // so far for the current version.
+  let recordsRead = 0;
+
+  // The number of records for the current version that were committed by
+  // a previous (interrupted) attempt to apply it.
+  let recordsToSkip = 0;
+
+  const getCheckpoint = (phase: UpdatePhase): UpdateCheckpoint => {
+    const checkpoint: UpdateCheckpoint = {
+      series,
+      version: currentVersion!,
+      phase,
+      recordsCommitted: recordsRead,
+      quarantined: quarantinedRecords,
+    };
+    if (currentFrom) {
+      checkpoint.from = currentFrom;
+    }
+    return checkpoint;
+  };
+
+  const commitChunk = async () => {
+    // Since we won't resume a file with a checksum, there's no point recording
+    // a checkpoint for it (and reporting it as a pending update).
+    const checkpoint = hasChecksum ? undefined : getCheckpoint('apply');
+
+    if (isFullUpdate) {
+      await store.putShadowRecords({
+        table: series,
+        put: recordsToPut,
+        checkpoint,
+      });
+    } else {
+      await store.bulkUpdateTable({
+        table: series,
+        put: recordsToPut,
+        drop: recordsToDelete,
+        checkpoint,
+      });
+    }
+
+    recordsToPut = [];
+    recordsToDelete = [];
+  };
+
+  // Counts the record just read and returns false if it should be skipped
+  // because it was committed by a previous attempt to apply the current
+  // version.
+  const countRecord = (): boolean => ++recordsRead > recordsToSkip;
+
+  const maybeCommitChunk = async () => {
+    const currentChunkSize = isFullUpdate
+      ? chunkSize || DEFAULT_CHUNK_SIZE
+      : hasChecksum
+      ? undefined
+      : chunkSize;
+    if (
+      currentChunkSize &&
+      recordsToPut.length + recordsToDelete.length >= currentChunkSize
+    ) {
+      await commitChunk();
+    }
+  };
 
   const finishCurrentVersion = async () => {
     if (!currentVersion) {
       return;
     }
 
+    // If we skipped any records, record the fact in the version so that we
+    // know the data is incomplete until the next full update.
+    const quarantined =
+      quarantinedRecords +
+      (isFullUpdate
+        ? 0
+        : (await store.getDataVersion(series))?.quarantined || 0);
+    if (quarantined) {
+      currentVersion.quarantined = quarantined;
+    }
+
     callback({ type: 'finishdownload', version: currentVersion });
 
     try {
@@ -153,13 +276,26 @@ async function update<
         callback({ type: 'progress', loaded: processed, total });
       };
 
-      await store.bulkUpdateTable({
-        table: series,
-        put: recordsToPut,
-        drop: currentVersion.patch === 0 ? '*' : recordsToDelete,
-        version: currentVersion,
-        onProgress,
-      });
+      if (isFullUpdate) {
+        // Record that we have written everything so that if we are
+        // interrupted before swapping in the shadow table, we can simply
+        // finish the job (see JpdictDatabase.recoverInterruptedUpdate).
+        await store.putShadowRecords({
+          table: series,
+          put: recordsToPut,
+          checkpoint: getCheckpoint('commit'),
+          onProgress,
+        });
+        await store.swapShadowTable({ table: series, version: currentVersion });
+      } else {
+        await store.bulkUpdateTable({
+          table: series,
+          put: recordsToPut,
+          drop: recordsToDelete,
+          version: currentVersion,
+          onProgress,
+        });
+      }
     } catch (e) {
       if (verbose) {
         console.log('Got error while updating tables');
@@ -176,6 +312,7 @@ async function update<
 
     recordsToPut = [];
     recordsToDelete = [];
+    quarantinedRecords = 0;
 
     const appliedVersion = currentVersion;
 
@@ -184,49 +321,160 @@ async function update<
     callback({ type: 'finishpatch', version: appliedVersion });
   };
 
-  for await (const event of downloadIterator) {
-    switch (event.type) {
-      case 'version':
-        if (currentVersion) {
-          throw new Error(
-            `Unfinished version: ${JSON.stringify(currentVersion)}`
-          );
-        }
+  try {
+    for await (const event of downloadIterator) {
+      switch (event.type) {
+        case 'version':
+          if (currentVersion) {
+            throw new Error(
+              `Unfinished version: ${JSON.stringify(currentVersion)}`
+            );
+          }
 
-        currentVersion = { ...stripFields(event, ['type']), lang };
+          currentVersion = {
+            ...stripFields(event, ['type', 'snapshot', 'from', 'hasChecksum']),
+            lang,
+          };
+          // The first patch of a minor version is a full update unless it is
+          // a bridge from a previous minor version.
+          currentFrom = event.snapshot ? undefined : event.from;
+          isFullUpdate =
+            (currentVersion.patch === 0 && !currentFrom) || !!event.snapshot;
+          hasChecksum = !!event.hasChecksum;
+          if (source) {
+            currentVersion.source = source;
+          }
 
-        callback({
-          type: 'startdownload',
-          series,
-          version: currentVersion,
-        });
-        break;
-
-      case 'versionend':
-        await finishCurrentVersion();
-        break;
-
-      case 'entry':
-        {
-          // The following hack is here until I work out how to fix this
-          // properly:
-          //
-          //   https://stackoverflow.com/questions/57815891/how-to-define-an-object-type-that-does-not-include-a-specific-member
-          //
-          const recordToPut = toRecord(
-            (stripFields(event, ['type']) as unknown) as EntryLine
-          );
-          recordsToPut.push(recordToPut);
-        }
-        break;
-
-      case 'deletion':
-        recordsToDelete.push(getId(event));
-        break;
-
-      case 'progress':
-        callback(event);
-        break;
+          {
+            // Check if we were interrupted while applying this version
+            // previously.
+            const checkpoint = await store.getCheckpoint(series);
+            const resuming =
+              !hasChecksum &&
+              !!checkpoint &&
+              isSameVersion(checkpoint.version, currentVersion) &&
+              isSameBridge(checkpoint.from, currentFrom);
+            recordsRead = 0;
+            recordsToSkip = resuming ? checkpoint!.recordsCommitted : 0;
+            quarantinedRecords = resuming ? checkpoint!.quarantined : 0;
+
+            if (resuming && verbose) {
+              console.log(
+                `Resuming update of ${series} after ${recordsToSkip} record(s)`
+              );
+            }
+
+            if (isFullUpdate && !resuming) {
+              // Clear out anything left over from an interrupted full update
+              await store.clearShadowTable(series);
+            }
+          }
+
+          callback({
+            type: 'startdownload',
+            series,
+            version: currentVersion,
+          });
+          break;
+
+        case 'versionend':
+          await finishCurrentVersion();
+          break;
+
+        case 'entry':
+          if (countRecord()) {
+            // The following hack is here until I work out how to fix this
+            // properly:
+            //
+            //   https://stackoverflow.com/questions/57815891/how-to-define-an-object-type-that-does-not-include-a-specific-member
+            //
+            const recordToPut = toRecord(
+              stripFields(event, ['type']) as unknown as EntryLine
+            );
+            recordsToPut.push(recordToPut);
+            await maybeCommitChunk();
+          }
+          break;
+
+        case 'deletion':
+          if (countRecord()) {
+            recordsToDelete.push(getId(event));
+            await maybeCommitChunk();
+          }
+          break;
+
+        case 'quarantine':
+          if (countRecord()) {
+            quarantinedRecords++;
+            callback({ type: 'quarantine', series, record: event.record });
+          }
+          break;
+
+        case 'plan':
+          callback({ type: 'plan', series, files: event.files });
+          break;
+
+        case 'progress':
+          callback(event);
+          break;
+      }
+    }
+  } catch (e) {
+    // If the file is corrupt, don't leave any of its records around to be
+    // picked up by the next attempt.
+    if (currentVersion && isCorruptFileError(e)) {
+      if (verbose) {
+        console.log(
+          `Dropping records written for corrupt ${series} file ${JSON.stringify(
+            currentVersion
+          )}`
+        );
+      }
+      try {
+        await store.clearShadowTable(series);
+      } catch (_) {
+        // Report the original error rather than any error clearing the data
+      }
     }
+    throw e;
   }
 }
+
+// Returns true if the given error means the file we were reading is corrupt
+// (as opposed to, for example, the network connection being lost).
+function isCorruptFileError(e: unknown): boolean {
+  if (!(e instanceof DownloadError)) {
+    return false;
+  }
+
+  switch (e.code) {
+    case DownloadErrorCode.DatabaseFileChecksumMismatch:
+    case DownloadErrorCode.DatabaseFileHeaderDuplicate:
+    case DownloadErrorCode.DatabaseFileInvalidJSON:
+    case DownloadErrorCode.DatabaseFileInvalidRecord:
+      return true;
+
+    default:
+      return false;
+  }
+}
+
+function isSameBridge(a: Version | undefined, b: Version | undefined) {
+  if (!a || !b) {
+    return !a && !b;
+  }
+
+  return a.major === b.major && a.minor === b.minor && a.patch === b.patch;
+}
+
+function isSameVersion(a: DataVersion, b: DataVersion): boolean {
+  return (
+    a.major === b.major &&
+    a.minor === b.minor &&
+    a.patch === b.patch &&
+    a.databaseVersion === b.databaseVersion &&
+    a.dateOfCreation === b.dateOfCreation &&
+    a.lang === b.lang &&
+    a.source === b.source
+  );
+}
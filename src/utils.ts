@@ -18,22 +18,6 @@ export function stripFields<T extends object, K extends keyof T>(
 export type MakeOptional<T, K extends keyof T> = Omit<T, K> &
   Pick<Partial<T>, K>;
 
-export function isArrayOfStrings(a: any) {
-  return (
-    Array.isArray(a) &&
-    (a as Array<any>).every((elem) => typeof elem === 'string')
-  );
-}
-
-export function isArrayOfStringsOrNumbers(a: any) {
-  return (
-    Array.isArray(a) &&
-    (a as Array<any>).every(
-      (elem) => typeof elem === 'string' || typeof elem === 'number'
-    )
-  );
-}
-
 export function isFinitePositiveNumber(a: unknown): a is number {
   return typeof a === 'number' && (a as number) >= 0 && Number.isFinite(a);
 }
@@ -0,0 +1,234 @@
+// Helpers for validating the records in the database files.
+//
+// Each Check verifies a value and records any problems it finds along with
+// the path to the offending value (e.g. `s[2].pos[0]`) so that when the format
+// of the upstream data changes we can tell exactly what changed.
+
+export type ValidationFailure = {
+  // The path to the invalid value (or the empty string for the record itself)
+  path: string;
+  message: string;
+};
+
+export function formatValidationFailure({
+  path,
+  message,
+}: ValidationFailure): string {
+  return path ? `${path}: ${message}` : message;
+}
+
+// Checks a value, returning true if it is valid.
+//
+// If `failures` is provided, every problem found is recorded in it along with
+// its path. Otherwise the check stops at the first problem (and `path` is not
+// used) so that it is cheap enough to run on every record we read.
+export type Check = (
+  a: unknown,
+  path: string,
+  failures?: Array<ValidationFailure>
+) => boolean;
+
+export function isValid(a: unknown, check: Check): boolean {
+  return check(a, '');
+}
+
+export function validate(a: unknown, check: Check): Array<ValidationFailure> {
+  const failures: Array<ValidationFailure> = [];
+  check(a, '', failures);
+  return failures;
+}
+
+function describe(a: unknown): string {
+  if (typeof a === 'string') {
+    return `'${a}'`;
+  }
+
+  if (typeof a === 'undefined') {
+    return 'undefined';
+  }
+
+  return JSON.stringify(a);
+}
+
+function typeCheck(expected: string, test: (a: unknown) => boolean): Check {
+  return (a, path, failures) => {
+    if (test(a)) {
+      return true;
+    }
+
+    failures?.push({
+      path,
+      message: `expected ${expected} but got ${describe(a)}`,
+    });
+    return false;
+  };
+}
+
+export const string = typeCheck('a string', (a) => typeof a === 'string');
+
+export const nonEmptyString = typeCheck(
+  'a non-empty string',
+  (a) => typeof a === 'string' && !!a.length
+);
+
+export const number = typeCheck('a number', (a) => typeof a === 'number');
+
+export const finitePositiveNumber = typeCheck(
+  'a finite positive number',
+  (a) => typeof a === 'number' && a >= 0 && Number.isFinite(a)
+);
+
+export const stringOrNumber = typeCheck(
+  'a string or number',
+  (a) => typeof a === 'string' || typeof a === 'number'
+);
+
+export const absent: Check = (a, path, failures) => {
+  if (typeof a === 'undefined') {
+    return true;
+  }
+
+  failures?.push({ path, message: 'should not be present' });
+  return false;
+};
+
+// Checks the value is one of a set of string values (e.g. a PartOfSpeech)
+export function oneOf(
+  typeName: string,
+  isMember: (a: unknown) => boolean
+): Check {
+  return (a, path, failures) => {
+    if (isMember(a)) {
+      return true;
+    }
+
+    failures?.push({ path, message: `${describe(a)} is not a ${typeName}` });
+    return false;
+  };
+}
+
+export function optional(check: Check): Check {
+  return (a, path, failures) =>
+    typeof a === 'undefined' || check(a, path, failures);
+}
+
+export function arrayOf(check: Check): Check {
+  return (a, path, failures) => {
+    if (!Array.isArray(a)) {
+      failures?.push({
+        path,
+        message: `expected an array but got ${describe(a)}`,
+      });
+      return false;
+    }
+
+    let valid = true;
+    for (let i = 0; i < a.length; i++) {
+      if (!check(a[i], failures ? `${path}[${i}]` : '', failures)) {
+        if (!failures) {
+          return false;
+        }
+        valid = false;
+      }
+    }
+
+    return valid;
+  };
+}
+
+export const arrayOfStrings = arrayOf(string);
+
+function isNonNullObject(a: unknown): a is Record<string, unknown> {
+  return typeof a === 'object' && a !== null;
+}
+
+function checkIsObject(
+  a: unknown,
+  path: string,
+  failures: Array<ValidationFailure> | undefined
+): a is Record<string, unknown> {
+  if (!isNonNullObject(a)) {
+    failures?.push({
+      path,
+      message: `expected an object but got ${describe(a)}`,
+    });
+    return false;
+  }
+
+  return true;
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+// Checks the value is an object and that each of the listed members passes
+// the corresponding check.
+//
+// Members that are not listed are not checked.
+export function object(members: Record<string, Check>): Check {
+  const entries = Object.entries(members);
+
+  return (a, path, failures) => {
+    if (!checkIsObject(a, path, failures)) {
+      return false;
+    }
+
+    let valid = true;
+    for (const [key, check] of entries) {
+      if (!check(a[key], failures ? joinPath(path, key) : '', failures)) {
+        if (!failures) {
+          return false;
+        }
+        valid = false;
+      }
+    }
+
+    return valid;
+  };
+}
+
+// Checks the value is an object whose members all pass the given check.
+export function recordOf(check: Check): Check {
+  return (a, path, failures) => {
+    if (!checkIsObject(a, path, failures)) {
+      return false;
+    }
+
+    let valid = true;
+    for (const key of Object.keys(a)) {
+      if (!check(a[key], failures ? joinPath(path, key) : '', failures)) {
+        if (!failures) {
+          return false;
+        }
+        valid = false;
+      }
+    }
+
+    return valid;
+  };
+}
+
+// Runs the given check, and then, if it passed, runs `getFailure` on the value
+// to perform any further checks.
+//
+// This is useful for cross-member checks (e.g. where one of two members must
+// be present).
+export function refine(
+  check: Check,
+  getFailure: (a: any) => string | undefined
+): Check {
+  return (a, path, failures) => {
+    if (!check(a, path, failures)) {
+      return false;
+    }
+
+    const message = getFailure(a);
+    if (message) {
+      failures?.push({ path, message });
+      return false;
+    }
+
+    return true;
+  };
+}
@@ -0,0 +1,130 @@
+// A cache of version files, keyed by URL (and hence by base URL and language).
+//
+// This allows several series that are updated in the same session (or even in
+// different tabs) to share the same version file rather than each fetching it.
+
+export type CachedVersionFile = {
+  contents: any;
+  // The ETag of the response, if any, so we can make conditional requests
+  etag?: string;
+  // When the file was last fetched (or revalidated), in milliseconds since
+  // the epoch
+  fetched: number;
+};
+
+export interface VersionFileCache {
+  get(url: string): Promise<CachedVersionFile | undefined>;
+  set(url: string, entry: CachedVersionFile): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// The name of the Cache API cache we use to persist version files.
+const CACHE_NAME = 'jpdict-version-files';
+
+// Header names we use to store the metadata for each entry when persisting
+// version files using the Cache API.
+const ETAG_HEADER = 'X-Jpdict-ETag';
+const FETCHED_HEADER = 'X-Jpdict-Fetched';
+
+// A cache that persists version files using the Cache API where it is
+// available (so that they are shared between tabs) and otherwise simply
+// stores them in memory.
+export class PersistentVersionFileCache implements VersionFileCache {
+  private memoryCache: Map<string, CachedVersionFile> = new Map();
+
+  async get(url: string): Promise<CachedVersionFile | undefined> {
+    const cache = await openCache();
+    if (!cache) {
+      return this.memoryCache.get(url);
+    }
+
+    try {
+      const response = await cache.match(url);
+
+      // If we failed to persist an entry (e.g. because we are out of storage),
+      // the in-memory copy may be the only one we have, or may be more recent
+      // than the persisted one.
+      const memoryEntry = this.memoryCache.get(url);
+      if (!response) {
+        return memoryEntry;
+      }
+
+      const fetched = parseInt(response.headers.get(FETCHED_HEADER) || '', 10);
+      if (isNaN(fetched)) {
+        return memoryEntry;
+      }
+
+      if (memoryEntry && memoryEntry.fetched > fetched) {
+        return memoryEntry;
+      }
+
+      const entry: CachedVersionFile = {
+        contents: await response.json(),
+        fetched,
+      };
+      const etag = response.headers.get(ETAG_HEADER);
+      if (etag) {
+        entry.etag = etag;
+      }
+
+      return entry;
+    } catch (_e) {
+      return this.memoryCache.get(url);
+    }
+  }
+
+  async set(url: string, entry: CachedVersionFile): Promise<void> {
+    this.memoryCache.set(url, entry);
+
+    const cache = await openCache();
+    if (!cache) {
+      return;
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      [FETCHED_HEADER]: String(entry.fetched),
+    };
+    if (entry.etag) {
+      headers[ETAG_HEADER] = entry.etag;
+    }
+
+    try {
+      await cache.put(
+        url,
+        new Response(JSON.stringify(entry.contents), { headers })
+      );
+    } catch (_e) {
+      // Ignore, we still have the in-memory copy
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.memoryCache.clear();
+
+    try {
+      if (typeof self.caches !== 'undefined') {
+        await self.caches.delete(CACHE_NAME);
+      }
+    } catch (_e) {
+      // Ignore
+    }
+  }
+}
+
+async function openCache(): Promise<Cache | undefined> {
+  // The Cache API is not available in all contexts (e.g. insecure contexts)
+  // and may throw when storage is disabled.
+  try {
+    if (typeof self.caches === 'undefined') {
+      return undefined;
+    }
+
+    return await self.caches.open(CACHE_NAME);
+  } catch (_e) {
+    return undefined;
+  }
+}
+
+export const defaultVersionFileCache: VersionFileCache =
+  new PersistentVersionFileCache();
@@ -1,4 +1,19 @@
-import { isArrayOfStrings, isFinitePositiveNumber } from './utils';
+import { isFinitePositiveNumber } from './utils';
+import {
+  absent,
+  arrayOf,
+  arrayOfStrings,
+  Check,
+  finitePositiveNumber,
+  isValid,
+  object,
+  oneOf,
+  optional,
+  refine,
+  string,
+  validate,
+  ValidationFailure,
+} from './validation';
 
 export interface WordEntryLine {
   id: number;
@@ -23,20 +38,6 @@ export type KanjiMeta = {
   p?: Array<string>;
 };
 
-function isKanjiMeta(a: unknown): a is KanjiMeta {
-  return (
-    typeof a === 'object' &&
-    a !== null &&
-    // i
-    (typeof (a as KanjiMeta).i === 'undefined' ||
-      (Array.isArray((a as KanjiMeta).i) &&
-        ((a as KanjiMeta).i as Array<any>).every(isKanjiInfo))) &&
-    // p
-    (typeof (a as KanjiMeta).p === 'undefined' ||
-      isArrayOfStrings((a as KanjiMeta).p))
-  );
-}
-
 export type KanjiInfo =
   // ateji (phonetic) reading
   | 'ateji'
@@ -80,28 +81,6 @@ export type ReadingMeta = {
   a?: number | Array<Accent>;
 };
 
-function isReadingMeta(a: unknown): a is ReadingMeta {
-  return (
-    typeof a === 'object' &&
-    a !== null &&
-    // i
-    (typeof (a as ReadingMeta).i === 'undefined' ||
-      (Array.isArray((a as ReadingMeta).i) &&
-        ((a as ReadingMeta).i as Array<any>).every(isReadingInfo))) &&
-    // p
-    (typeof (a as ReadingMeta).p === 'undefined' ||
-      isArrayOfStrings((a as ReadingMeta).p)) &&
-    // app
-    (typeof (a as ReadingMeta).app === 'undefined' ||
-      isFinitePositiveNumber((a as ReadingMeta).app)) &&
-    // a
-    (typeof (a as ReadingMeta).a === 'undefined' ||
-      typeof (a as ReadingMeta).a === 'number' ||
-      (Array.isArray((a as ReadingMeta).a) &&
-        ((a as ReadingMeta).a as Array<Accent>).every(isAccent)))
-  );
-}
-
 export type ReadingInfo =
   // gikun (meaning as reading) or jukujikun (special kanji reading)
   | 'gikun'
@@ -130,19 +109,6 @@ export type Accent = {
   pos?: Array<PartOfSpeech>;
 };
 
-function isAccent(a: unknown): a is Accent {
-  return (
-    typeof a === 'object' &&
-    a !== null &&
-    // i
-    isFinitePositiveNumber((a as Accent).i) &&
-    // pos
-    (typeof (a as Accent).pos === 'undefined' ||
-      (Array.isArray((a as Accent).pos) &&
-        (a as Accent).pos!.every(isPartOfSpeech)))
-  );
-}
-
 export type WordSense = {
   g: Array<string>;
   // A bitfield representing the type of the glosses in `g`. Two bits are used
@@ -173,57 +139,6 @@ export type WordSense = {
   lsrc?: Array<LangSource>;
 };
 
-function isWordSense(a: unknown): a is WordSense {
-  return (
-    // g
-    isArrayOfStrings((a as WordSense).g) &&
-    // gt
-    (typeof (a as WordSense).gt === 'undefined' ||
-      isFinitePositiveNumber((a as WordSense).gt)) &&
-    // lang
-    (typeof (a as WordSense).lang === 'undefined' ||
-      typeof (a as WordSense).lang === 'string') &&
-    // kapp
-    (typeof (a as WordSense).kapp === 'undefined' ||
-      isFinitePositiveNumber((a as WordSense).kapp)) &&
-    // rapp
-    (typeof (a as WordSense).rapp === 'undefined' ||
-      isFinitePositiveNumber((a as WordSense).rapp)) &&
-    // pos
-    //
-    // NOTE: We deliberately DON'T verify that that the pos, field, misc, and
-    // dial fields are one of the expected values because we don't want to have
-    // to force a major revision of the database each time a new value is added.
-    //
-    // Instead we should just ignore unrecognized values.
-    (typeof (a as WordSense).pos === 'undefined' ||
-      isArrayOfStrings((a as WordSense).pos)) &&
-    // field
-    (typeof (a as WordSense).field === 'undefined' ||
-      isArrayOfStrings((a as WordSense).field)) &&
-    // misc
-    (typeof (a as WordSense).misc === 'undefined' ||
-      isArrayOfStrings((a as WordSense).misc)) &&
-    // dial
-    (typeof (a as WordSense).dial === 'undefined' ||
-      isArrayOfStrings((a as WordSense).dial)) &&
-    // inf
-    (typeof (a as WordSense).inf === 'undefined' ||
-      typeof (a as WordSense).inf === 'string') &&
-    // xref
-    (typeof (a as WordSense).xref === 'undefined' ||
-      (Array.isArray((a as WordSense).xref) &&
-        (a as WordSense).xref!.every(isCrossReference))) &&
-    // ant
-    (typeof (a as WordSense).ant === 'undefined' ||
-      (Array.isArray((a as WordSense).ant) &&
-        (a as WordSense).ant!.every(isCrossReference))) &&
-    // lsrc
-    (typeof (a as WordSense).lsrc === 'undefined' ||
-      isLangSource((a as WordSense).lsrc))
-  );
-}
-
 export const enum GlossType {
   None,
   Expl,
@@ -367,19 +282,7 @@ export type CrossReference =
     };
 
 export function isCrossReference(a: unknown): a is CrossReference {
-  return (
-    typeof a === 'object' &&
-    a !== null &&
-    // Either k or r must be defined
-    (typeof (a as any).k === 'string' || typeof (a as any).r === 'string') &&
-    // k
-    (typeof (a as any).k === 'string' || typeof (a as any).k === 'undefined') &&
-    // r
-    (typeof (a as any).r === 'string' || typeof (a as any).r === 'undefined') &&
-    // sense
-    (typeof (a as CrossReference).sense === 'undefined' ||
-      isFinitePositiveNumber((a as CrossReference).sense))
-  );
+  return isValid(a, checkCrossReference);
 }
 
 export type LangSource = {
@@ -400,63 +303,246 @@ export type LangSource = {
   wasei?: true;
 };
 
-function isLangSource(a: unknown): a is LangSource {
-  return (
-    typeof a === 'object' &&
-    a !== null &&
-    // lang
-    (typeof (a as LangSource).lang === 'undefined' ||
-      typeof (a as LangSource).lang === 'string') &&
-    // src
-    (typeof (a as LangSource).src === 'undefined' ||
-      typeof (a as LangSource).src === 'string') &&
-    // part
-    (typeof (a as LangSource).part === 'undefined' ||
-      (a as LangSource).part === true) &&
-    // wasei
-    (typeof (a as LangSource).wasei === 'undefined' ||
-      (a as LangSource).wasei === true)
-  );
-}
-
 export interface WordDeletionLine {
   id: number;
   deleted: true;
 }
 
-export function isWordEntryLine(a: any): a is WordEntryLine {
-  return (
-    typeof a === 'object' &&
-    a !== null &&
-    // id
-    isFinitePositiveNumber(a.id) &&
-    // k
-    (typeof a.k === 'undefined' || isArrayOfStrings(a.k)) &&
-    // km
-    (typeof a.km === 'undefined' || isKanjiMetaArray(a.km)) &&
-    // r
-    isArrayOfStrings(a.r) &&
-    // rm
-    (typeof a.rm === 'undefined' ||
-      (Array.isArray(a.rm) &&
-        (a.rm as Array<0 | ReadingMeta>).every(
-          (rm) => rm === 0 || isReadingMeta(rm)
-        ))) &&
-    // s
-    Array.isArray(a.s) &&
-    a.s.every(isWordSense) &&
+// How to handle tags (e.g. parts of speech) that we don't recognize, such as
+// those added upstream after this version of the library was released.
+//
+// - 'preserve' keeps unrecognized sense tags (pos, field, misc, dial) as-is.
+//   Consumers should ignore any values they don't recognize (e.g. by using
+//   isPartOfSpeech). Unrecognized kanji info, reading info, and accent parts
+//   of speech, however, still cause the record to be rejected since the
+//   types of those fields only allow recognized values.
+// - 'drop' removes them (see dropUnknownTags).
+// - 'reject' treats the whole record as invalid.
+export type UnknownTagPolicy = 'preserve' | 'drop' | 'reject';
+
+const checkCrossReference = refine(
+  object({
+    k: optional(string),
+    r: optional(string),
+    sense: optional(finitePositiveNumber),
+  }),
+  // Either k or r must be defined
+  (a: CrossReference) =>
+    typeof (a as any).k === 'undefined' && typeof (a as any).r === 'undefined'
+      ? 'expected either k or r to be present'
+      : undefined
+);
+
+const checkLangSource = object({
+  lang: optional(string),
+  src: optional(string),
+  part: optional(oneOf('true', (a) => a === true)),
+  wasei: optional(oneOf('true', (a) => a === true)),
+});
+
+// Checks for elements of the km and rm arrays where 0 is used in place of
+// null when transporting the data as JSON.
+function zeroOr(check: Check): Check {
+  return (a, path, failures) => a === 0 || check(a, path, failures);
+}
+
+function getWordEntryLineCheck(unknownTags: UnknownTagPolicy): Check {
+  const tags = (
+    typeName: string,
+    isMember: (a: unknown) => boolean,
+    allowUnknown: boolean
+  ) =>
+    optional(
+      allowUnknown ? arrayOfStrings : arrayOf(oneOf(typeName, isMember))
+    );
+
+  // Unrecognized sense tags are allowed unless the caller asks us to reject
+  // them, but any other unrecognized tags are only allowed if they are going
+  // to be dropped.
+  const senseTags = (typeName: string, isMember: (a: unknown) => boolean) =>
+    tags(typeName, isMember, unknownTags !== 'reject');
+  const infoTags = (typeName: string, isMember: (a: unknown) => boolean) =>
+    tags(typeName, isMember, unknownTags === 'drop');
+
+  const checkKanjiMeta = object({
+    i: infoTags('KanjiInfo', isKanjiInfo),
+    p: optional(arrayOfStrings),
+  });
+
+  const checkAccent = object({
+    // Syllable number of the accent
+    i: finitePositiveNumber,
+    pos: infoTags('PartOfSpeech', isPartOfSpeech),
+  });
+
+  const checkAccents = arrayOf(checkAccent);
+
+  const checkReadingMeta = object({
+    i: infoTags('ReadingInfo', isReadingInfo),
+    p: optional(arrayOfStrings),
+    app: optional(finitePositiveNumber),
+    a: optional(
+      (a, path, failures) =>
+        typeof a === 'number' || checkAccents(a, path, failures)
+    ),
+  });
+
+  const checkWordSense = object({
+    g: arrayOfStrings,
+    gt: optional(finitePositiveNumber),
+    lang: optional(string),
+    kapp: optional(finitePositiveNumber),
+    rapp: optional(finitePositiveNumber),
+    // NOTE: Unless the caller asks us to, we deliberately DON'T verify that
+    // the pos, field, misc, and dial fields are one of the expected values
+    // because we don't want to have to force a major revision of the database
+    // each time a new value is added.
+    pos: senseTags('PartOfSpeech', isPartOfSpeech),
+    field: senseTags('FieldType', isFieldType),
+    misc: senseTags('MiscType', isMiscType),
+    dial: senseTags('Dialect', isDialect),
+    inf: optional(string),
+    xref: optional(arrayOf(checkCrossReference)),
+    ant: optional(arrayOf(checkCrossReference)),
+    lsrc: optional(arrayOf(checkLangSource)),
+  });
+
+  return object({
+    id: finitePositiveNumber,
+    k: optional(arrayOfStrings),
+    km: optional(arrayOf(zeroOr(checkKanjiMeta))),
+    r: arrayOfStrings,
+    rm: optional(arrayOf(zeroOr(checkReadingMeta))),
+    s: arrayOf(checkWordSense),
     // deleted (should NOT be present)
-    typeof a.deleted === 'undefined'
-  );
+    deleted: absent,
+  });
 }
 
-function isKanjiMetaArray(a: unknown): a is Array<0 | KanjiMeta> {
-  return (
-    Array.isArray(a) &&
-    (a as Array<any>).every(
-      (elem) => (typeof elem === 'number' && elem === 0) || isKanjiMeta(elem)
-    )
-  );
+const checkWordEntryLine: Record<UnknownTagPolicy, Check> = {
+  preserve: getWordEntryLineCheck('preserve'),
+  drop: getWordEntryLineCheck('drop'),
+  reject: getWordEntryLineCheck('reject'),
+};
+
+export function validateWordEntryLine(
+  a: any,
+  { unknownTags = 'preserve' }: { unknownTags?: UnknownTagPolicy } = {}
+): Array<ValidationFailure> {
+  return validate(a, checkWordEntryLine[unknownTags]);
+}
+
+export function isWordEntryLine(
+  a: any,
+  { unknownTags = 'preserve' }: { unknownTags?: UnknownTagPolicy } = {}
+): a is WordEntryLine {
+  return isValid(a, checkWordEntryLine[unknownTags]);
+}
+
+// Removes any unrecognized tags from `entry` (in place), returning a
+// description of each one removed.
+export function dropUnknownTags(
+  entry: WordEntryLine
+): Array<ValidationFailure> {
+  const dropped: Array<ValidationFailure> = [];
+
+  function filterTags<T>(
+    tags: Array<T> | undefined,
+    path: string,
+    typeName: string,
+    isMember: (a: unknown) => a is T
+  ): Array<T> | undefined {
+    if (!tags) {
+      return tags;
+    }
+
+    const result = tags.filter((tag, i) => {
+      if (isMember(tag)) {
+        return true;
+      }
+      dropped.push({
+        path: `${path}[${i}]`,
+        message: `'${tag}' is not a ${typeName}`,
+      });
+      return false;
+    });
+
+    return result.length ? result : undefined;
+  }
+
+  function setTags<T, K extends keyof T>(
+    obj: T,
+    key: K,
+    tags: T[K] | undefined
+  ) {
+    if (tags) {
+      obj[key] = tags;
+    } else {
+      delete obj[key];
+    }
+  }
+
+  for (const [i, km] of (entry.km || []).entries()) {
+    if (km) {
+      setTags(
+        km,
+        'i',
+        filterTags(km.i, `km[${i}].i`, 'KanjiInfo', isKanjiInfo)
+      );
+    }
+  }
+
+  for (const [i, rm] of (entry.rm || []).entries()) {
+    if (!rm) {
+      continue;
+    }
+
+    setTags(
+      rm,
+      'i',
+      filterTags(rm.i, `rm[${i}].i`, 'ReadingInfo', isReadingInfo)
+    );
+
+    if (Array.isArray(rm.a)) {
+      for (const [j, accent] of rm.a.entries()) {
+        setTags(
+          accent,
+          'pos',
+          filterTags(
+            accent.pos,
+            `rm[${i}].a[${j}].pos`,
+            'PartOfSpeech',
+            isPartOfSpeech
+          )
+        );
+      }
+    }
+  }
+
+  for (const [i, sense] of entry.s.entries()) {
+    setTags(
+      sense,
+      'pos',
+      filterTags(sense.pos, `s[${i}].pos`, 'PartOfSpeech', isPartOfSpeech)
+    );
+    setTags(
+      sense,
+      'field',
+      filterTags(sense.field, `s[${i}].field`, 'FieldType', isFieldType)
+    );
+    setTags(
+      sense,
+      'misc',
+      filterTags(sense.misc, `s[${i}].misc`, 'MiscType', isMiscType)
+    );
+    setTags(
+      sense,
+      'dial',
+      filterTags(sense.dial, `s[${i}].dial`, 'Dialect', isDialect)
+    );
+  }
+
+  return dropped;
 }
 
 export function isWordDeletionLine(a: any): a is WordDeletionLine {